@@ -0,0 +1,68 @@
+export interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string>;
+}
+
+/**
+ * Quebra o texto de um comando em tokens, respeitando "frases entre aspas".
+ * Um "-" colado à frase é preservado: -"banco central" → '-banco central'.
+ */
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const re = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(input)) !== null) {
+    tokens.push(match[2] !== undefined ? match[1] + match[2] : match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Parser simples de argumentos de comandos do bot.
+ * Ex: 'tech brasil --freq 2h --max=5' →
+ *   { positional: ['tech', 'brasil'], flags: { freq: '2h', max: '5' } }
+ * Flags sem valor recebem 'true'.
+ */
+export function parseArgs(input: string | undefined | null): ParsedArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  const tokens = tokenize(input || '');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token.startsWith('--') || token.length <= 2) {
+      positional.push(token);
+      continue;
+    }
+
+    const body = token.slice(2);
+    const eq = body.indexOf('=');
+    if (eq >= 0) {
+      flags[body.slice(0, eq).toLowerCase()] = body.slice(eq + 1);
+    } else if (i + 1 < tokens.length && !tokens[i + 1].startsWith('--')) {
+      flags[body.toLowerCase()] = tokens[++i];
+    } else {
+      flags[body.toLowerCase()] = 'true';
+    }
+  }
+
+  return { positional, flags };
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Converte durações como "30m", "2h", "3d" ou "1w" em milissegundos.
+ * Retorna null se o formato não for reconhecido.
+ */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().toLowerCase().match(/^(\d+)\s*(min|m|h|d|w)$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
@@ -0,0 +1,251 @@
+import { NewsItem } from './types';
+import { extractSignificantWords, normalizeTitle } from './dedup';
+import { normalizeUrl } from './sentHistory';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { recordTermFrequencies } from './topics';
+
+const ARTICLES_FILE = dataFilePath('.articles.json');
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ARTICLES = 20000;
+const MAX_DESCRIPTION_LENGTH = 500;
+const TITLE_WEIGHT = 3;
+
+interface StoredArticle {
+  title: string;
+  link: string;
+  source: string;
+  category?: string;
+  publishedAt: number;
+  description: string;
+  firstSeenAt: number;
+}
+
+interface ArticlesFile {
+  articles: StoredArticle[];
+}
+
+export interface SearchOptions {
+  sinceMs: number;
+  source?: string;
+}
+
+export interface SearchHit {
+  item: NewsItem;
+  score: number;
+}
+
+// URL normalizada → artigo
+let articles: Map<string, StoredArticle> | null = null;
+// termo → URLs que contêm o termo (título ou descrição)
+let index: Map<string, Set<string>> | null = null;
+
+function indexTerms(article: StoredArticle): Set<string> {
+  return new Set(extractSignificantWords(article.title + ' ' + article.description));
+}
+
+function addToIndex(key: string, article: StoredArticle): void {
+  for (const term of indexTerms(article)) {
+    let keys = index!.get(term);
+    if (!keys) index!.set(term, (keys = new Set()));
+    keys.add(key);
+  }
+}
+
+function removeFromIndex(key: string, article: StoredArticle): void {
+  for (const term of indexTerms(article)) {
+    const keys = index!.get(term);
+    if (!keys) continue;
+    keys.delete(key);
+    if (keys.size === 0) index!.delete(term);
+  }
+}
+
+function load(): Map<string, StoredArticle> {
+  if (articles) return articles;
+  const data = readJsonFile<ArticlesFile>(ARTICLES_FILE, { articles: [] });
+  articles = new Map();
+  index = new Map();
+  for (const article of data.articles) {
+    const key = normalizeUrl(article.link);
+    articles.set(key, article);
+    addToIndex(key, article);
+  }
+  console.log(`[articles] ${articles.size} artigos carregados, ${index.size} termos no índice`);
+  return articles;
+}
+
+/**
+ * Remove artigos vencidos e, se ainda passar do limite, os mais antigos.
+ */
+function prune(store: Map<string, StoredArticle>): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const [key, article] of store) {
+    if (article.firstSeenAt < cutoff) {
+      store.delete(key);
+      removeFromIndex(key, article);
+    }
+  }
+  if (store.size <= MAX_ARTICLES) return;
+
+  const oldest = [...store.entries()]
+    .sort((a, b) => a[1].firstSeenAt - b[1].firstSeenAt)
+    .slice(0, store.size - MAX_ARTICLES);
+  for (const [key, article] of oldest) {
+    store.delete(key);
+    removeFromIndex(key, article);
+  }
+}
+
+function toNewsItem(article: StoredArticle): NewsItem {
+  return {
+    title: article.title,
+    link: article.link,
+    source: article.source,
+    category: article.category,
+    publishedAt: new Date(article.publishedAt),
+    description: article.description,
+    relevanceScore: 0,
+    scoreBreakdown: { crossFeedScore: 0, recencyScore: 0, trendingScore: 0, socialScore: 0, totalScore: 0 },
+  };
+}
+
+/**
+ * Quando o artigo foi visto pela primeira vez (para fontes sem data).
+ */
+export function getFirstSeenAt(link: string): number | undefined {
+  return load().get(normalizeUrl(link))?.firstSeenAt;
+}
+
+/**
+ * Persiste os itens recém-buscados. Só grava no disco se houver novidade.
+ * Os novos também alimentam o baseline de termos do trending.
+ */
+export function recordArticles(items: NewsItem[]): void {
+  const store = load();
+  const now = Date.now();
+  const added: NewsItem[] = [];
+
+  for (const item of items) {
+    if (!item.link) continue;
+    const key = normalizeUrl(item.link);
+    if (store.has(key)) continue;
+
+    const article: StoredArticle = {
+      title: item.title,
+      link: item.link,
+      source: item.source,
+      category: item.category,
+      publishedAt: item.publishedAt.getTime(),
+      description: item.description.slice(0, MAX_DESCRIPTION_LENGTH),
+      firstSeenAt: now,
+    };
+    store.set(key, article);
+    addToIndex(key, article);
+    added.push(item);
+  }
+
+  if (added.length === 0) return;
+  recordTermFrequencies(added);
+  prune(store);
+  writeJsonFile(ARTICLES_FILE, { articles: Array.from(store.values()) });
+}
+
+/**
+ * Busca no acervo local. Termos soltos são combinados com AND e pontuados
+ * por TF-IDF (título pesa mais que descrição); "frases entre aspas" precisam
+ * aparecer literalmente. Palavras que o índice ignora (curtas ou stop words,
+ * ex: "IA") viram busca literal em vez de serem descartadas.
+ */
+export function searchArticles(tokens: string[], opts: SearchOptions): SearchHit[] {
+  const store = load();
+  const queryTerms: string[] = [];
+  const queryPhrases: string[] = [];
+  for (const token of tokens) {
+    const words = extractSignificantWords(token);
+    if (token.includes(' ') || words.length === 0) {
+      const phrase = normalizeTitle(token);
+      if (phrase) queryPhrases.push(phrase);
+    } else {
+      queryTerms.push(...words);
+    }
+  }
+  if (queryTerms.length === 0 && queryPhrases.length === 0) return [];
+  const uniqueTerms = [...new Set(queryTerms)];
+
+  // Candidatos: interseção das listas do índice (ou tudo, se só houver frases)
+  let candidates: string[];
+  if (uniqueTerms.length > 0) {
+    const lists = uniqueTerms.map((t) => index!.get(t) || new Set<string>());
+    lists.sort((a, b) => a.size - b.size);
+    candidates = [...lists[0]].filter((key) => lists.every((l) => l.has(key)));
+  } else {
+    candidates = [...store.keys()];
+  }
+
+  const cutoff = Date.now() - opts.sinceMs;
+  const sourceFilter = opts.source?.toLowerCase();
+  const total = store.size;
+  const hits: SearchHit[] = [];
+
+  for (const key of candidates) {
+    const article = store.get(key);
+    if (!article || article.publishedAt < cutoff) continue;
+    if (sourceFilter && !article.source.toLowerCase().includes(sourceFilter)) continue;
+
+    const titleText = ` ${normalizeTitle(article.title)} `;
+    const fullText = ` ${normalizeTitle(article.title + ' ' + article.description)} `;
+    if (!queryPhrases.every((p) => fullText.includes(` ${p} `))) continue;
+
+    const titleWords = extractSignificantWords(article.title);
+    const bodyWords = extractSignificantWords(article.description);
+    let score = 0;
+    for (const term of uniqueTerms) {
+      const idf = Math.log(1 + total / (index!.get(term)?.size || 1));
+      const tf = titleWords.filter((w) => w === term).length * TITLE_WEIGHT
+        + bodyWords.filter((w) => w === term).length;
+      score += Math.log(1 + tf) * idf;
+    }
+    for (const phrase of queryPhrases) {
+      score += titleText.includes(` ${phrase} `) ? 2 * TITLE_WEIGHT : 2;
+    }
+
+    // Leve preferência por notícias mais novas em caso de empate
+    const ageDays = (Date.now() - article.publishedAt) / (24 * 60 * 60 * 1000);
+    score += Math.max(0, 1 - ageDays / 7) * 0.5;
+
+    hits.push({ item: toNewsItem(article), score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * "Mais como este": artigos que compartilham termos relevantes do título,
+ * pontuados pela soma do IDF dos termos em comum. Exclui a própria história
+ * (item representante e suas fontes relacionadas).
+ */
+export function findSimilarArticles(item: NewsItem, limit: number = 5): NewsItem[] {
+  load();
+  const terms = [...new Set(extractSignificantWords(item.title))];
+  const exclude = new Set([item.link, ...(item.related || []).map((r) => r.link)].map(normalizeUrl));
+  const total = articles!.size;
+  const scores = new Map<string, number>();
+
+  for (const term of terms) {
+    const keys = index!.get(term);
+    if (!keys) continue;
+    const idf = Math.log(1 + total / keys.size);
+    for (const key of keys) {
+      if (exclude.has(key)) continue;
+      scores.set(key, (scores.get(key) || 0) + idf);
+    }
+  }
+
+  // Pelo menos dois termos raros em comum para não sugerir ruído
+  const minScore = 2 * Math.log(1 + total / Math.max(1, total / 10));
+  return [...scores.entries()]
+    .filter(([, score]) => score >= minScore)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => toNewsItem(articles!.get(key)!));
+}
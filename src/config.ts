@@ -1,25 +1,133 @@
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
-import { AppConfig, FeedsConfig } from './types';
+import { AppConfig, FeedSource, FeedsConfig, QuietHours, RankingProfile } from './types';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { BASE_PROFILE } from './scoring';
 
 dotenv.config();
 
-function loadFeeds(): FeedsConfig {
-  // Tenta vários caminhos (local: __dirname/.., Docker: /app, cwd)
+// Edições feitas via /addfeed, /removefeed etc. Guarda só a diferença em
+// relação ao feeds.json do repositório, aplicada por cima dele ao carregar.
+const FEEDS_OVERRIDE_FILE = dataFilePath('.feeds.json');
+
+interface FeedOverrides {
+  added: FeedSource[];
+  removed: string[];                 // Nomes de fontes do feeds.json
+  enabled: Record<string, boolean>;  // Fontes do feeds.json ligadas/desligadas
+}
+
+// Fontes do feeds.json, base para calcular as edições ao salvar
+let baseFeeds: FeedSource[] = [];
+
+/**
+ * Procura um arquivo de configuração do repositório em vários caminhos
+ * (local: __dirname/.., Docker: /app, cwd).
+ */
+function findConfigFile(fileName: string): { path: string | null; tried: string[] } {
   const candidates = [
-    path.join(__dirname, '..', 'feeds.json'),
-    path.join(process.cwd(), 'feeds.json'),
-    '/app/feeds.json',
+    path.join(__dirname, '..', fileName),
+    path.join(process.cwd(), fileName),
+    `/app/${fileName}`,
   ];
-  for (const p of candidates) {
-    if (fs.existsSync(p)) {
-      console.log(`[config] feeds.json encontrado em: ${p}`);
-      const raw = fs.readFileSync(p, 'utf-8');
-      return JSON.parse(raw) as FeedsConfig;
+  return { path: candidates.find((p) => fs.existsSync(p)) || null, tried: candidates };
+}
+
+function enabledOf(feed: FeedSource): boolean {
+  return feed.enabled !== false;
+}
+
+function mergeFeeds(base: FeedSource[], overrides: FeedOverrides): FeedSource[] {
+  const removed = new Set(overrides.removed);
+  const baseNames = new Set(base.map((f) => f.name));
+  const merged = base
+    .filter((f) => !removed.has(f.name))
+    .map((f) => (f.name in overrides.enabled ? { ...f, enabled: overrides.enabled[f.name] } : f));
+  // Se o feeds.json passou a ter uma fonte com o mesmo nome, a dele vale
+  return [...merged, ...overrides.added.filter((f) => !baseNames.has(f.name))];
+}
+
+function diffFeeds(base: FeedSource[], feeds: FeedSource[]): FeedOverrides {
+  const baseByName = new Map(base.map((f) => [f.name, f]));
+  const names = new Set(feeds.map((f) => f.name));
+  const enabled: Record<string, boolean> = {};
+  for (const feed of feeds) {
+    const original = baseByName.get(feed.name);
+    if (original && enabledOf(original) !== enabledOf(feed)) enabled[feed.name] = enabledOf(feed);
+  }
+  return {
+    added: feeds.filter((f) => !baseByName.has(f.name)),
+    removed: base.filter((f) => !names.has(f.name)).map((f) => f.name),
+    enabled,
+  };
+}
+
+function loadFeedOverrides(): FeedOverrides | null {
+  if (!fs.existsSync(FEEDS_OVERRIDE_FILE)) return null;
+  const file = readJsonFile<Partial<FeedOverrides>>(FEEDS_OVERRIDE_FILE, {});
+  return { added: file.added || [], removed: file.removed || [], enabled: file.enabled || {} };
+}
+
+function loadFeeds(): FeedsConfig {
+  const found = findConfigFile('feeds.json');
+  if (!found.path) throw new Error('feeds.json not found! Tried: ' + found.tried.join(', '));
+  console.log(`[config] feeds.json encontrado em: ${found.path}`);
+  const feedsConfig = JSON.parse(fs.readFileSync(found.path, 'utf-8')) as FeedsConfig;
+  baseFeeds = feedsConfig.feeds;
+
+  const overrides = loadFeedOverrides();
+  if (!overrides) return feedsConfig;
+  console.log(
+    `[config] Edições de fontes em ${FEEDS_OVERRIDE_FILE}: ${overrides.added.length} adicionadas, `
+    + `${overrides.removed.length} removidas, ${Object.keys(overrides.enabled).length} ligadas/desligadas`
+  );
+  return { ...feedsConfig, feeds: mergeFeeds(baseFeeds, overrides) };
+}
+
+interface RankingConfigFile {
+  default?: string;
+  profiles?: (Partial<Omit<RankingProfile, 'weights' | 'caps'>> & {
+    weights?: Partial<RankingProfile['weights']>;
+    caps?: Partial<RankingProfile['caps']>;
+  })[];
+}
+
+/**
+ * Perfis de ranking do ranking.json (opcional). Campos omitidos herdam
+ * do perfil padrão embutido.
+ */
+function loadRankingProfiles(): { profiles: RankingProfile[]; defaultName: string } {
+  const found = findConfigFile('ranking.json');
+  if (!found.path) return { profiles: [BASE_PROFILE], defaultName: BASE_PROFILE.name };
+
+  const file = readJsonFile<RankingConfigFile>(found.path, {});
+  const profiles: RankingProfile[] = [];
+  for (const p of file.profiles || []) {
+    if (!p.name) {
+      console.warn('[config] Perfil de ranking sem "name" no ranking.json, ignorando');
+      continue;
     }
+    profiles.push({
+      name: p.name.toLowerCase(),
+      description: p.description || '',
+      weights: { ...BASE_PROFILE.weights, ...p.weights },
+      caps: { ...BASE_PROFILE.caps, ...p.caps },
+      recencyHalfLifeHours: p.recencyHalfLifeHours && p.recencyHalfLifeHours > 0
+        ? p.recencyHalfLifeHours
+        : BASE_PROFILE.recencyHalfLifeHours,
+    });
   }
-  throw new Error('feeds.json not found! Tried: ' + candidates.join(', '));
+
+  console.log(`[config] ${profiles.length} perfis de ranking em: ${found.path}`);
+  if (profiles.length === 0) return { profiles: [BASE_PROFILE], defaultName: BASE_PROFILE.name };
+  return { profiles, defaultName: (file.default || profiles[0].name).toLowerCase() };
+}
+
+/**
+ * Persiste a lista de fontes como edições sobre o feeds.json.
+ */
+export function saveFeeds(feeds: FeedSource[]): void {
+  writeJsonFile(FEEDS_OVERRIDE_FILE, diffFeeds(baseFeeds, feeds));
 }
 
 function requiredEnv(key: string): string {
@@ -37,15 +145,88 @@ function optionalEnvInt(key: string, fallback: number): number {
   return isNaN(parsed) ? fallback : parsed;
 }
 
+function optionalEnvString(key: string): string | null {
+  const value = process.env[key];
+  return value && value.trim() ? value.trim() : null;
+}
+
+function optionalEnvList(key: string): string[] {
+  const value = process.env[key];
+  if (!value) return [];
+  return value.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+function optionalEnvBool(key: string, fallback: boolean): boolean {
+  const value = process.env[key];
+  if (!value) return fallback;
+  return ['1', 'true', 'yes', 'sim'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Lê QUIET_HOURS no formato "23-7" (início-fim, em horas).
+ * Intervalos que cruzam a meia-noite são permitidos.
+ */
+function optionalQuietHours(key: string): QuietHours | null {
+  const value = optionalEnvString(key);
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+  if (!match) {
+    console.warn(`[config] ${key} inválido ("${value}"), ignorando`);
+    return null;
+  }
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  if (start > 23 || end > 23 || start === end) {
+    console.warn(`[config] ${key} inválido ("${value}"), ignorando`);
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Sem ADMIN_USER_IDS, o dono do chat padrão é admin — só dá certo em chat
+ * privado (id do chat == id do usuário). Grupos têm id negativo.
+ */
+function defaultAdmins(telegramChatId: string): string[] {
+  if (telegramChatId.startsWith('-')) {
+    console.warn('[config] TELEGRAM_CHAT_ID é um grupo e ADMIN_USER_IDS está vazio: comandos de admin desativados');
+    return [];
+  }
+  return [telegramChatId];
+}
+
 export function loadConfig(): AppConfig {
   const feedsConfig = loadFeeds();
+  const ranking = loadRankingProfiles();
+  const telegramChatId = requiredEnv('TELEGRAM_CHAT_ID');
+  const adminUserIds = optionalEnvList('ADMIN_USER_IDS');
 
   return {
     telegramBotToken: requiredEnv('TELEGRAM_BOT_TOKEN'),
-    telegramChatId: requiredEnv('TELEGRAM_CHAT_ID'),
+    telegramChatId,
+    adminUserIds: adminUserIds.length > 0 ? adminUserIds : defaultAdmins(telegramChatId),
     checkIntervalMinutes: optionalEnvInt('CHECK_INTERVAL_MINUTES', 30),
     maxNewsPerSend: optionalEnvInt('MAX_NEWS_PER_SEND', 10),
     newsMaxAgeHours: optionalEnvInt('NEWS_MAX_AGE_HOURS', 24),
+    moneyCron: optionalEnvString('MONEY_CRON'),
+    latestCron: optionalEnvString('LATEST_CRON'),
+    dailyCron: optionalEnvString('DAILY_CRON'),
+    weeklyCron: optionalEnvString('WEEKLY_CRON'),
+    quietHours: optionalQuietHours('QUIET_HOURS'),
+    scheduleTimezone: optionalEnvString('SCHEDULE_TIMEZONE') || 'America/Sao_Paulo',
+    skipEmptyDigests: optionalEnvBool('SKIP_EMPTY_DIGESTS', true),
+    sentHistoryHours: optionalEnvInt('SENT_HISTORY_HOURS', 48),
+    fetchCacheTtlMinutes: optionalEnvInt('FETCH_CACHE_TTL_MINUTES', 5),
+    mastodonInstance: optionalEnvString('MASTODON_INSTANCE') || 'mastodon.social',
+    socialCacheTtlMinutes: optionalEnvInt('SOCIAL_CACHE_TTL_MINUTES', 60),
+    socialLookupsPerRun: optionalEnvInt('SOCIAL_LOOKUPS_PER_RUN', 20),
+    rankingProfiles: ranking.profiles,
+    defaultRankingProfile: optionalEnvString('RANKING_PROFILE')?.toLowerCase() || ranking.defaultName,
+    watchIntervalMinutes: optionalEnvInt('WATCH_INTERVAL_MINUTES', 10),
     feeds: feedsConfig.feeds,
+    domainAuthority: feedsConfig.domainAuthority || {},
+    categories: feedsConfig.categories || {},
+    quoteProvider: optionalEnvString('QUOTE_PROVIDER') === 'fixture' ? 'fixture' : 'yahoo',
+    quoteFixtureFile: optionalEnvString('QUOTE_FIXTURE_FILE') || findConfigFile('quotes.fixture.json').path,
   };
 }
@@ -1,4 +1,4 @@
-import { NewsItem } from './types';
+import { CoverageEntry, NewsItem } from './types';
 
 /**
  * Normaliza título para comparação:
@@ -7,7 +7,7 @@ import { NewsItem } from './types';
  * - remove artigos e preposições curtas
  * - remove espaços extras
  */
-function normalizeTitle(title: string): string {
+export function normalizeTitle(title: string): string {
   return title
     .toLowerCase()
     .replace(/[''"""\-–—]/g, ' ')
@@ -37,7 +37,7 @@ const DEDUP_STOP_WORDS = new Set([
  * Extrai palavras-chave significativas de um título normalizado.
  * Remove stop words e palavras muito curtas.
  */
-function extractSignificantWords(title: string): string[] {
+export function extractSignificantWords(title: string): string[] {
   return normalizeTitle(title)
     .split(' ')
     .filter((w) => w.length > 2 && !DEDUP_STOP_WORDS.has(w));
@@ -82,7 +82,7 @@ function overlapCoefficient(wordsA: string[], wordsB: string[]): number {
  * Verifica se dois títulos falam sobre o mesmo assunto usando
  * múltiplas métricas combinadas.
  */
-function areSimilar(titleA: string, titleB: string): boolean {
+export function areSimilar(titleA: string, titleB: string): boolean {
   const wordsA = extractSignificantWords(titleA);
   const wordsB = extractSignificantWords(titleB);
 
@@ -106,8 +106,34 @@ function areSimilar(titleA: string, titleB: string): boolean {
 }
 
 /**
- * Remove itens com títulos similares.
- * Mantém o item com maior relevanceScore entre os duplicados.
+ * Anexa o item duplicado (e o que ele já tinha agrupado) à cobertura do
+ * representante do cluster, sem repetir links.
+ */
+function mergeInto(target: NewsItem, duplicate: NewsItem): void {
+  const related = target.related || (target.related = []);
+  const seen = new Set([target.link, ...related.map((r) => r.link)]);
+  const incoming: CoverageEntry[] = [
+    { title: duplicate.title, link: duplicate.link, source: duplicate.source, publishedAt: duplicate.publishedAt },
+    ...(duplicate.related || []),
+  ];
+  for (const entry of incoming) {
+    if (seen.has(entry.link)) continue;
+    seen.add(entry.link);
+    related.push(entry);
+  }
+}
+
+/**
+ * Cópia rasa para não mutar itens compartilhados entre chats.
+ */
+function asClusterHead(item: NewsItem): NewsItem {
+  return { ...item, related: [...(item.related || [])] };
+}
+
+/**
+ * Agrupa itens com títulos similares em clusters de história.
+ * Mantém como representante o item com maior relevanceScore; os demais
+ * ficam em `related` em vez de serem descartados.
  * Muito mais agressivo que a versão anterior.
  */
 export function deduplicateBySimilarity(
@@ -119,20 +145,15 @@ export function deduplicateBySimilarity(
   // Ordena por score desc para manter sempre o melhor
   const sorted = [...items].sort((a, b) => b.relevanceScore - a.relevanceScore);
   const kept: NewsItem[] = [];
-  const keptWords: string[][] = []; // cache de palavras já processadas
 
   for (const item of sorted) {
-    const words = extractSignificantWords(item.title);
-
     // Verifica contra TODOS os itens já mantidos
-    const isDuplicate = kept.some((_, idx) => {
-      const existingWords = keptWords[idx];
-      return areSimilar(item.title, kept[idx].title);
-    });
+    const existing = kept.find((k) => areSimilar(item.title, k.title));
 
-    if (!isDuplicate) {
-      kept.push(item);
-      keptWords.push(words);
+    if (existing) {
+      mergeInto(existing, item);
+    } else {
+      kept.push(asClusterHead(item));
     }
   }
 
@@ -141,7 +162,7 @@ export function deduplicateBySimilarity(
 
 /**
  * Dedup rápido para uso final antes de enviar — última camada de proteção.
- * Ainda mais agressivo: threshold baixo.
+ * Ainda mais agressivo: threshold baixo. Duplicatas também vão para `related`.
  */
 export function finalDedup(items: NewsItem[]): NewsItem[] {
   if (items.length === 0) return [];
@@ -152,15 +173,17 @@ export function finalDedup(items: NewsItem[]): NewsItem[] {
   for (const item of items) {
     const words = extractSignificantWords(item.title);
 
-    const isDuplicate = result.some((existing, idx) => {
-      const jaccard = jaccardSimilarity(words, resultWords[idx]);
-      const overlap = overlapCoefficient(words, resultWords[idx]);
+    const idx = result.findIndex((_, i) => {
+      const jaccard = jaccardSimilarity(words, resultWords[i]);
+      const overlap = overlapCoefficient(words, resultWords[i]);
       // Mais agressivo ainda na camada final
       return jaccard >= 0.3 || overlap >= 0.6 || (jaccard >= 0.2 && overlap >= 0.45);
     });
 
-    if (!isDuplicate) {
-      result.push(item);
+    if (idx >= 0) {
+      mergeInto(result[idx], item);
+    } else {
+      result.push(asClusterHead(item));
       resultWords.push(words);
     }
   }
@@ -0,0 +1,91 @@
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const FEED_HEALTH_FILE = dataFilePath('.feed-health.json');
+
+// Backoff começa após 3 falhas seguidas: 5min, 10min, 20min... até 6h
+const FAILURES_BEFORE_BACKOFF = 3;
+const BASE_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+export interface FeedHealth {
+  name: string;
+  lastSuccessAt: number | null;
+  lastErrorAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  lastItemCount: number;
+  lastLatencyMs: number;
+  backoffUntil: number;
+}
+
+let cache: Record<string, FeedHealth> | null = null;
+
+function load(): Record<string, FeedHealth> {
+  if (!cache) cache = readJsonFile<Record<string, FeedHealth>>(FEED_HEALTH_FILE, {});
+  return cache;
+}
+
+function recordFor(name: string): FeedHealth {
+  const data = load();
+  return data[name] || (data[name] = {
+    name,
+    lastSuccessAt: null,
+    lastErrorAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    lastItemCount: 0,
+    lastLatencyMs: 0,
+    backoffUntil: 0,
+  });
+}
+
+export function recordFetchSuccess(name: string, itemCount: number, latencyMs: number): void {
+  const record = recordFor(name);
+  record.lastSuccessAt = Date.now();
+  record.consecutiveFailures = 0;
+  record.backoffUntil = 0;
+  record.lastItemCount = itemCount;
+  record.lastLatencyMs = latencyMs;
+}
+
+export function recordFetchFailure(name: string, err: unknown, latencyMs: number): void {
+  const record = recordFor(name);
+  record.lastErrorAt = Date.now();
+  record.lastError = String((err as Error)?.message || err).slice(0, 200);
+  record.consecutiveFailures++;
+  record.lastItemCount = 0;
+  record.lastLatencyMs = latencyMs;
+
+  if (record.consecutiveFailures >= FAILURES_BEFORE_BACKOFF) {
+    const exponent = record.consecutiveFailures - FAILURES_BEFORE_BACKOFF;
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+    record.backoffUntil = Date.now() + backoff;
+    console.log(`[health] ${name}: ${record.consecutiveFailures} falhas seguidas, pausada por ${Math.round(backoff / 60000)}min`);
+  }
+}
+
+export function isBackedOff(name: string): boolean {
+  const record = load()[name];
+  return !!record && record.backoffUntil > Date.now();
+}
+
+/**
+ * Grava uma vez por rodada do fetchAll, não a cada fonte.
+ */
+export function saveFeedHealth(): void {
+  writeJsonFile(FEED_HEALTH_FILE, load());
+}
+
+export function getFeedHealth(name: string): FeedHealth | undefined {
+  return load()[name];
+}
+
+/**
+ * Remove registros de fontes que não existem mais (ex: após /removefeed).
+ */
+export function forgetFeedHealth(name: string): void {
+  const data = load();
+  if (!data[name]) return;
+  delete data[name];
+  saveFeedHealth();
+}
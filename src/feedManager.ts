@@ -0,0 +1,148 @@
+import { AppConfig, FeedSource } from './types';
+import { saveFeeds } from './config';
+import { fetchSourceOrThrow } from './fetcher';
+import { forgetFeedHealth } from './feedHealth';
+
+export const FEED_TYPES: FeedSource['type'][] = ['rss', 'atom', 'jsonfeed', 'sitemap', 'http', 'reddit', 'hackernews', 'lobsters', 'mastodon', 'bluesky'];
+
+export function isFeedType(value: string): value is FeedSource['type'] {
+  return (FEED_TYPES as string[]).includes(value);
+}
+
+/**
+ * Nome padrão quando o admin não passa --name: "Reddit r/x" para reddit,
+ * "Hacker News"/"Lobsters"
+ * com a listagem, "Mastodon #tag"/"Bluesky ..." ou o domínio do site.
+ */
+export function defaultFeedName(type: FeedSource['type'], url: string): string {
+  if (type === 'reddit') return `Reddit r/${url}`;
+  if (type === 'hackernews') return url === 'front_page' ? 'Hacker News' : `Hacker News ${url}`;
+  if (type === 'lobsters') return url === 'hottest' ? 'Lobsters' : `Lobsters ${url}`;
+  if (type === 'mastodon') {
+    const target = url.split('/').slice(1).join('/');
+    return `Mastodon ${target.startsWith('tags/') ? '#' + target.slice(5) : target}`;
+  }
+  if (type === 'bluesky') return url.startsWith('at://') ? `Bluesky ${url.split('/').pop()}` : `Bluesky "${url}"`;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Normaliza o alvo: subreddit aceita "r/x", "/r/x" ou URL completa;
+ * Hacker News recebe a tag do Algolia ("front_page", "show_hn"...);
+ * Lobsters aceita "hottest", "newest", "t/tag" ou a URL da listagem;
+ * Mastodon vira "instância/tags/x" ou "instância/@conta" (aceita
+ * "instância/#x" e URLs); Bluesky converte URL de feed do bsky.app em at://.
+ */
+export function normalizeFeedUrl(type: FeedSource['type'], url: string): string {
+  const trimmed = url.trim();
+  if (type === 'hackernews') return trimmed.toLowerCase() || 'front_page';
+  if (type === 'lobsters') {
+    const path = trimmed.replace(/^https?:\/\/lobste\.rs/, '').replace(/^\/+|\/+$/g, '').replace(/\.json$/, '');
+    return path || 'hottest';
+  }
+  if (type === 'mastodon') {
+    return trimmed
+      .replace(/^https?:\/\//, '')
+      .replace(/\/+$/, '')
+      .replace(/\/#([^/]+)$/, '/tags/$1')
+      .replace(/\/(@[^/@]+)@[^/]+$/, '/$1');
+  }
+  if (type === 'bluesky') {
+    const feed = trimmed.match(/bsky\.app\/profile\/([^/]+)\/feed\/([^/?#]+)/);
+    return feed ? `at://${feed[1]}/app.bsky.feed.generator/${feed[2]}` : trimmed;
+  }
+  if (type !== 'reddit') return trimmed;
+  const match = trimmed.match(/(?:reddit\.com)?\/?(?:r\/)?([A-Za-z0-9_]+)\/?$/);
+  return match ? match[1] : trimmed;
+}
+
+/**
+ * Busca a fonte uma vez antes de aceitar; erros de rede/parse e
+ * "nenhum item" são tratados como falha.
+ * Retorna mensagem de erro ou null se a fonte é válida.
+ */
+export async function validateFeedSource(source: FeedSource): Promise<string | null> {
+  if (source.type === 'reddit') {
+    if (!/^[A-Za-z0-9_]{2,21}$/.test(source.url)) return 'Nome de subreddit inválido.';
+  } else if (source.type === 'hackernews') {
+    if (!/^[a-z0-9_,()]+$/.test(source.url)) return 'Tag do Hacker News inválida (ex: front_page, show_hn).';
+  } else if (source.type === 'lobsters') {
+    if (!/^(hottest|newest|active|t\/[a-z0-9_,-]+)$/.test(source.url)) return 'Listagem do Lobsters inválida (ex: hottest, newest, t/programming).';
+  } else if (source.type === 'mastodon') {
+    if (!/^[a-z0-9.-]+\.[a-z]{2,}\/(tags\/[^/\s]+|@[A-Za-z0-9_]+)$/i.test(source.url)) {
+      return 'Use instância/tags/hashtag ou instância/@conta (ex: mastodon.social/tags/tech).';
+    }
+  } else if (source.type === 'bluesky') {
+    if (!source.url) return 'Informe um feed (at://...) ou termo de busca.';
+  } else {
+    try {
+      const parsed = new URL(source.url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'A URL precisa ser http(s).';
+    } catch {
+      return 'URL inválida.';
+    }
+  }
+
+  let items;
+  try {
+    items = await fetchSourceOrThrow(source);
+  } catch (err) {
+    return `Falha ao buscar ${source.url}: ${(err as Error)?.message || err}`;
+  }
+  if (items.length === 0) {
+    return `Nenhum item retornado por ${source.url} — confira a URL e o tipo (${source.type}).`;
+  }
+  return null;
+}
+
+/**
+ * Limite de itens por envio das fontes que configuram maxPerDigest;
+ * as demais ficam com o padrão do ranker.
+ */
+export function sourceCaps(feeds: FeedSource[]): Map<string, number> {
+  return new Map(feeds.filter((f) => f.maxPerDigest !== undefined).map((f) => [f.name, f.maxPerDigest!]));
+}
+
+/**
+ * Procura pelo nome exato (sem diferenciar maiúsculas) ou pela posição
+ * (1-based) exibida em /sources.
+ */
+export function findFeed(config: AppConfig, nameOrIndex: string): FeedSource | undefined {
+  if (/^\d+$/.test(nameOrIndex)) return config.feeds[parseInt(nameOrIndex, 10) - 1];
+  const needle = nameOrIndex.toLowerCase();
+  return config.feeds.find((f) => f.name.toLowerCase() === needle);
+}
+
+/**
+ * Aplica a nova lista em memória (hot-reload: todo o pipeline lê
+ * config.feeds a cada execução) e persiste as edições.
+ */
+function applyFeeds(config: AppConfig, feeds: FeedSource[]): void {
+  config.feeds = feeds;
+  saveFeeds(feeds);
+  console.log(`[feeds] ${feeds.length} fontes configuradas (${feeds.filter((f) => f.enabled !== false).length} ativas)`);
+}
+
+export function addFeed(config: AppConfig, source: FeedSource): string | null {
+  if (config.feeds.some((f) => f.name.toLowerCase() === source.name.toLowerCase())) {
+    return `Já existe uma fonte chamada "${source.name}".`;
+  }
+  if (config.feeds.some((f) => f.type === source.type && f.url === source.url)) {
+    return 'Essa fonte já está configurada.';
+  }
+  applyFeeds(config, [...config.feeds, source]);
+  return null;
+}
+
+export function removeFeed(config: AppConfig, feed: FeedSource): void {
+  applyFeeds(config, config.feeds.filter((f) => f !== feed));
+  forgetFeedHealth(feed.name);
+}
+
+export function setFeedEnabled(config: AppConfig, feed: FeedSource, enabled: boolean): void {
+  applyFeeds(config, config.feeds.map((f) => (f === feed ? { ...f, enabled } : f)));
+}
@@ -0,0 +1,154 @@
+import { NewsItem, PersonalScore } from './types';
+import { normalizeUrl } from './sentHistory';
+import { extractKeywords } from './topics';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const FEEDBACK_FILE = dataFilePath('.feedback.json');
+
+// Votos mais antigos saem do modelo
+const MAX_VOTES_PER_CHAT = 500;
+
+// Pontos máximos de cada afinidade (afinidade vai de -1 a 1)
+const SOURCE_POINTS = 8;
+const CATEGORY_POINTS = 5;
+const KEYWORD_POINTS = 3;
+const PERSONAL_CAP = 20;
+
+export type Vote = 1 | -1;
+
+interface FeedbackVote {
+  vote: Vote;
+  keywords: string[];
+  source: string;
+  category?: string;
+  at: number;
+}
+
+// chatId → (URL normalizada → voto)
+let cache: Record<string, Record<string, FeedbackVote>> | null = null;
+
+// chatId → modelo derivado dos votos; descartado quando o chat vota de novo
+const models = new Map<string, PreferenceModel>();
+
+function load(): Record<string, Record<string, FeedbackVote>> {
+  if (!cache) cache = readJsonFile<Record<string, Record<string, FeedbackVote>>>(FEEDBACK_FILE, {});
+  return cache;
+}
+
+/**
+ * Registra 👍/👎 de um chat para o item. Trocar o voto substitui o anterior.
+ * Retorna false se o mesmo voto já estava registrado.
+ */
+export function recordFeedback(chatId: string, item: NewsItem, vote: Vote): boolean {
+  const data = load();
+  const votes = data[chatId] || (data[chatId] = {});
+  const key = normalizeUrl(item.link);
+  if (votes[key]?.vote === vote) return false;
+
+  votes[key] = {
+    vote,
+    keywords: [...new Set(extractKeywords(item.title))],
+    source: item.source,
+    category: item.category,
+    at: Date.now(),
+  };
+
+  const keys = Object.keys(votes);
+  if (keys.length > MAX_VOTES_PER_CHAT) {
+    keys.sort((a, b) => votes[a].at - votes[b].at);
+    for (const old of keys.slice(0, keys.length - MAX_VOTES_PER_CHAT)) delete votes[old];
+  }
+
+  models.delete(chatId);
+  writeJsonFile(FEEDBACK_FILE, data);
+  return true;
+}
+
+// --- Modelo de preferências: soma dos votos por keyword, fonte e categoria ---
+
+interface PreferenceModel {
+  keywords: Map<string, number>;
+  sources: Map<string, number>;
+  categories: Map<string, number>;
+}
+
+function add(map: Map<string, number>, key: string, vote: Vote): void {
+  map.set(key, (map.get(key) || 0) + vote);
+}
+
+function modelFor(chatId: string): PreferenceModel | undefined {
+  const votes = Object.values(load()[chatId] || {});
+  if (votes.length === 0) return undefined;
+
+  let model = models.get(chatId);
+  if (!model) {
+    model = { keywords: new Map(), sources: new Map(), categories: new Map() };
+    for (const v of votes) {
+      for (const keyword of v.keywords) add(model.keywords, keyword, v.vote);
+      add(model.sources, v.source, v.vote);
+      if (v.category) add(model.categories, v.category, v.vote);
+    }
+    models.set(chatId, model);
+  }
+  return model;
+}
+
+/**
+ * Saldo de votos → afinidade entre -1 e 1. Um voto isolado vale 1/3;
+ * precisa de vários para chegar perto do máximo.
+ */
+function affinity(balance: number): number {
+  return balance / (Math.abs(balance) + 2);
+}
+
+function personalScore(model: PreferenceModel, item: NewsItem): PersonalScore {
+  const keywords: Record<string, number> = {};
+  let keywordPoints = 0;
+  for (const keyword of new Set(extractKeywords(item.title))) {
+    const balance = model.keywords.get(keyword);
+    if (!balance) continue;
+    const pts = affinity(balance) * KEYWORD_POINTS;
+    keywords[keyword] = Math.round(pts * 10) / 10;
+    keywordPoints += pts;
+  }
+
+  const source = Math.round(affinity(model.sources.get(item.source) || 0) * SOURCE_POINTS);
+  const category = item.category
+    ? Math.round(affinity(model.categories.get(item.category) || 0) * CATEGORY_POINTS)
+    : 0;
+  const raw = Math.round(keywordPoints) + source + category;
+
+  return { keywords, source, category, points: Math.max(-PERSONAL_CAP, Math.min(PERSONAL_CAP, raw)) };
+}
+
+/**
+ * Soma o termo de personalização do chat ao score de cada item. Retorna
+ * cópias (os itens são compartilhados entre chats); sem votos, nada muda.
+ */
+export function personalize(chatId: string, items: NewsItem[]): NewsItem[] {
+  const model = modelFor(chatId);
+  if (!model) return items;
+
+  return items.map((item) => {
+    const personal = personalScore(model, item);
+    if (personal.points === 0 && Object.keys(personal.keywords).length === 0) return item;
+    return {
+      ...item,
+      relevanceScore: item.relevanceScore + personal.points,
+      scoreBreakdown: {
+        ...item.scoreBreakdown,
+        personalScore: personal.points,
+        totalScore: item.scoreBreakdown.totalScore + personal.points,
+        personal,
+      },
+    };
+  });
+}
+
+export function countFeedback(chatId: string): { up: number; down: number } {
+  const votes = Object.values(load()[chatId] || {});
+  return {
+    up: votes.filter((v) => v.vote === 1).length,
+    down: votes.filter((v) => v.vote === -1).length,
+  };
+}
@@ -0,0 +1,81 @@
+import { NewsItem } from './types';
+
+export interface ConditionalHeaders {
+  'If-None-Match'?: string;
+  'If-Modified-Since'?: string;
+}
+
+export interface LoaderResult {
+  items: NewsItem[];
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Recebe os headers condicionais da última resposta e retorna null
+ * quando o servidor responde 304 Not Modified.
+ */
+export type ConditionalLoader = (headers: ConditionalHeaders) => Promise<LoaderResult | null>;
+
+interface CacheEntry {
+  items: NewsItem[];
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<NewsItem[]>>();
+let ttlMs = 5 * 60 * 1000;
+
+export function setFetchCacheTtl(minutes: number): void {
+  ttlMs = minutes * 60 * 1000;
+}
+
+/**
+ * true se cachedFetch(key) vai responder sem fazer request próprio
+ * (itens dentro do TTL ou request da mesma fonte já em andamento).
+ */
+export function isServedFromCache(key: string): boolean {
+  const entry = entries.get(key);
+  return (!!entry && Date.now() - entry.fetchedAt < ttlMs) || inFlight.has(key);
+}
+
+/**
+ * Camada de cache compartilhada entre /latest, /trend, /money e os jobs:
+ * - dentro do TTL, devolve os itens já parseados sem tocar a rede;
+ * - depois do TTL, faz request condicional (ETag / Last-Modified) e
+ *   reaproveita os itens em caso de 304;
+ * - chamadas simultâneas para a mesma fonte esperam o mesmo request.
+ */
+export function cachedFetch(key: string, loader: ConditionalLoader): Promise<NewsItem[]> {
+  const entry = entries.get(key);
+  if (entry && Date.now() - entry.fetchedAt < ttlMs) return Promise.resolve(entry.items);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const headers: ConditionalHeaders = {};
+    if (entry?.etag) headers['If-None-Match'] = entry.etag;
+    if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+    const result = await loader(headers);
+    if (result === null) {
+      if (!entry) throw new Error('304 Not Modified sem cache local');
+      entry.fetchedAt = Date.now();
+      return entry.items;
+    }
+
+    entries.set(key, {
+      items: result.items,
+      fetchedAt: Date.now(),
+      etag: result.etag,
+      lastModified: result.lastModified,
+    });
+    return result.items;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
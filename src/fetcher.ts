@@ -1,124 +1,474 @@
 import Parser from 'rss-parser';
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import * as cheerio from 'cheerio';
-import { FeedSource, NewsItem } from './types';
+import { FeedSource, NewsItem, SocialProvider } from './types';
+import { getFirstSeenAt, recordArticles } from './articleStore';
+import { isBackedOff, recordFetchFailure, recordFetchSuccess, saveFeedHealth } from './feedHealth';
+import { cachedFetch, ConditionalHeaders, isServedFromCache, LoaderResult } from './fetchCache';
+import { scrapeEntries } from './scraper';
+import { capSocialScore, rawSocialScore } from './social';
 
-const rssParser = new Parser({
-  timeout: 15000,
-  headers: {
-    'User-Agent': 'NewsAggregator/1.0',
-  },
-});
+// O download é feito pelo axios (para suportar requests condicionais);
+// o rss-parser só faz o parse do XML
+const rssParser = new Parser();
 
-export async function fetchRSS(source: FeedSource): Promise<NewsItem[]> {
-  try {
-    const feed = await rssParser.parseURL(source.url);
-    return (feed.items || []).map((item) => ({
-      title: item.title || 'Sem título',
-      link: item.link || '',
+/**
+ * GET que aceita 304 como resposta válida. Retorna null em caso de 304.
+ */
+async function conditionalGet(
+  url: string,
+  userAgent: string,
+  conditional: ConditionalHeaders,
+  responseType: 'text' | 'json'
+): Promise<AxiosResponse | null> {
+  const response = await axios.get(url, {
+    timeout: 15000,
+    responseType,
+    headers: { 'User-Agent': userAgent, ...conditional },
+    validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+  });
+  return response.status === 304 ? null : response;
+}
+
+function withValidators(response: AxiosResponse, items: NewsItem[]): LoaderResult {
+  return {
+    items,
+    etag: response.headers['etag'] || undefined,
+    lastModified: response.headers['last-modified'] || undefined,
+  };
+}
+
+// --- Loaders: lançam exceção em caso de falha (usados pelo monitor de saúde) ---
+
+function parseDate(value: string | undefined): Date {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : new Date();
+}
+
+function stripHtml(html: string): string {
+  return cheerio.load(html).text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * RSS e Atom: o rss-parser entende os dois formatos. No Atom o autor vem
+ * em <author><name> e o resumo em <summary>; no RSS, em dc:creator.
+ */
+async function loadRSS(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const response = await conditionalGet(source.url, 'NewsAggregator/1.0', conditional, 'text');
+  if (!response) return null;
+
+  const feed = await rssParser.parseString(response.data);
+  return withValidators(response, (feed.items || []).map((item) => ({
+    title: item.title || 'Sem título',
+    link: item.link || '',
+    source: source.name,
+    category: source.category,
+    author: item.creator || item.author || undefined,
+    publishedAt: parseDate(item.isoDate || item.pubDate),
+    description: item.contentSnippet || item.summary || item.content || '',
+    relevanceScore: 0,
+    scoreBreakdown: DEFAULT_BREAKDOWN,
+  })));
+}
+
+/**
+ * JSON Feed 1.0/1.1 (https://jsonfeed.org/version/1.1). Autores ficam em
+ * "authors" (1.1) ou "author" (1.0), no item ou no feed.
+ */
+async function loadJsonFeed(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const response = await conditionalGet(source.url, 'NewsAggregator/1.0', conditional, 'json');
+  if (!response) return null;
+
+  const feed = response.data;
+  if (!Array.isArray(feed?.items)) throw new Error('Resposta não é um JSON Feed válido');
+
+  const authorOf = (obj: any): string | undefined => {
+    const authors = Array.isArray(obj?.authors) ? obj.authors : obj?.author ? [obj.author] : [];
+    const names = authors.map((a: any) => a?.name).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  };
+  const feedAuthor = authorOf(feed);
+
+  return withValidators(response, feed.items
+    .filter((item: any) => item.url || item.external_url)
+    .map((item: any) => ({
+      title: item.title || stripHtml(item.content_html || item.content_text || '').slice(0, 120) || 'Sem título',
+      link: item.url || item.external_url,
       source: source.name,
-      publishedAt: item.pubDate ? new Date(item.pubDate) : new Date(),
-      description: item.contentSnippet || item.content || '',
+      category: source.category,
+      author: authorOf(item) || feedAuthor,
+      publishedAt: parseDate(item.date_published || item.date_modified),
+      description: item.summary || item.content_text || stripHtml(item.content_html || ''),
       relevanceScore: 0,
       scoreBreakdown: DEFAULT_BREAKDOWN,
-    }));
-  } catch (err) {
-    console.error(`[fetcher] Erro ao buscar RSS de ${source.name}: ${err}`);
-    return [];
-  }
+    })));
 }
 
-export async function fetchHTTP(source: FeedSource): Promise<NewsItem[]> {
-  try {
-    const { data } = await axios.get(source.url, {
-      timeout: 15000,
-      headers: { 'User-Agent': 'NewsAggregator/1.0' },
+/**
+ * Sitemap do Google News: cada <url> traz <loc> e um bloco <news:news>
+ * com título e data de publicação. Não há resumo — as keywords, quando
+ * presentes, entram como descrição (ajudam no trending e na busca).
+ */
+async function loadSitemap(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const response = await conditionalGet(source.url, 'NewsAggregator/1.0', conditional, 'text');
+  if (!response) return null;
+
+  const $ = cheerio.load(response.data, { xmlMode: true });
+  const items: NewsItem[] = [];
+
+  $('url').each((_, el) => {
+    const $el = $(el);
+    const news = $el.find('news\\:news');
+    const link = $el.find('loc').first().text().trim();
+    const title = news.find('news\\:title').text().trim();
+    if (!link || !title) return;
+
+    items.push({
+      title,
+      link,
+      source: source.name,
+      category: source.category,
+      publishedAt: parseDate(news.find('news\\:publication_date').text().trim()),
+      description: news.find('news\\:keywords').text().trim(),
+      relevanceScore: 0,
+      scoreBreakdown: DEFAULT_BREAKDOWN,
     });
-    const $ = cheerio.load(data);
-    const items: NewsItem[] = [];
+  });
 
-    $('a[href]').each((_, el) => {
-      const $el = $(el);
-      const href = $el.attr('href');
-      const text = $el.text().trim();
+  return withValidators(response, items);
+}
 
-      if (!href || !text || text.length < 20) return;
+/**
+ * Páginas HTML, com seletores opcionais em source.scrape. Sem data na
+ * página, usa a primeira vez que o link foi visto — assim o item não
+ * parece novo a cada busca.
+ */
+async function loadHTTP(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const response = await conditionalGet(source.url, 'NewsAggregator/1.0', conditional, 'text');
+  if (!response) return null;
 
-      const fullUrl = href.startsWith('http')
-        ? href
-        : new URL(href, source.url).toString();
+  const now = Date.now();
+  return withValidators(response, scrapeEntries(response.data, source.url, source.scrape).map((entry) => ({
+    title: entry.title,
+    link: entry.link,
+    source: source.name,
+    category: source.category,
+    publishedAt: entry.publishedAt || new Date(getFirstSeenAt(entry.link) || now),
+    description: entry.description,
+    relevanceScore: 0,
+    scoreBreakdown: DEFAULT_BREAKDOWN,
+  })));
+}
 
-      items.push({
-        title: text.slice(0, 200),
-        link: fullUrl,
+const DEFAULT_BREAKDOWN = { crossFeedScore: 0, recencyScore: 0, trendingScore: 0, socialScore: 0, totalScore: 0 };
+
+async function loadReddit(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  // source.url = subreddit name like "technology" or "worldnews"
+  const subreddit = source.url;
+  const jsonUrl = `https://www.reddit.com/r/${subreddit}/hot.json?limit=25`;
+  const response = await conditionalGet(jsonUrl, 'NewsAggregator/1.0 (by /u/newsbot)', conditional, 'json');
+  if (!response) return null;
+
+  const data = response.data;
+  if (!data?.data?.children) return withValidators(response, []);
+
+  return withValidators(response, data.data.children
+    .filter((child: any) => child.data && !child.data.stickied)
+    .map((child: any) => {
+      const post = child.data;
+      const hasExternalUrl = post.url && !post.url.includes('reddit.com');
+      return {
+        title: post.title || 'Sem título',
+        link: hasExternalUrl ? post.url : `https://www.reddit.com${post.permalink}`,
         source: source.name,
-        publishedAt: new Date(),
-        description: '',
+        category: source.category,
+        publishedAt: new Date(post.created_utc * 1000),
+        description: post.selftext?.slice(0, 300) || '',
         relevanceScore: 0,
         scoreBreakdown: DEFAULT_BREAKDOWN,
-      });
-    });
+      };
+    }));
+}
 
-    return items;
-  } catch (err) {
-    console.error(`[fetcher] Erro ao buscar HTTP de ${source.name}: ${err}`);
-    return [];
-  }
+/**
+ * Engajamento vindo da própria fonte: o socialScore já sai calculado e o
+ * computeRelevance não consulta as APIs sociais para esses itens.
+ */
+function withEngagement(
+  provider: SocialProvider,
+  points: number,
+  comments: number,
+  discussionUrl: string
+): Pick<NewsItem, 'engagement' | 'scoreBreakdown'> {
+  const social = { [provider]: rawSocialScore(points, comments) };
+  return {
+    engagement: { provider, points, comments, discussionUrl },
+    scoreBreakdown: { ...DEFAULT_BREAKDOWN, socialScore: capSocialScore(social), social },
+  };
 }
 
-const DEFAULT_BREAKDOWN = { crossFeedScore: 0, recencyScore: 0, trendingScore: 0, socialScore: 0, totalScore: 0 };
+async function loadHackerNews(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  // source.url = tag da API do Algolia: "front_page", "show_hn", "ask_hn"...
+  const tag = source.url || 'front_page';
+  const apiUrl = `https://hn.algolia.com/api/v1/search?tags=${encodeURIComponent(tag)}&hitsPerPage=30`;
+  const response = await conditionalGet(apiUrl, 'NewsAggregator/1.0', conditional, 'json');
+  if (!response) return null;
 
-export async function fetchReddit(source: FeedSource): Promise<NewsItem[]> {
-  try {
-    // source.url = subreddit name like "technology" or "worldnews"
-    const subreddit = source.url;
-    const jsonUrl = `https://www.reddit.com/r/${subreddit}/hot.json?limit=25`;
-    const { data } = await axios.get(jsonUrl, {
+  const hits: any[] = response.data?.hits || [];
+  return withValidators(response, hits
+    .filter((hit) => hit.title && hit.objectID)
+    .map((hit) => {
+      const discussionUrl = `https://news.ycombinator.com/item?id=${hit.objectID}`;
+      return {
+        title: hit.title,
+        link: hit.url || discussionUrl,
+        source: source.name,
+        category: source.category,
+        author: hit.author || undefined,
+        publishedAt: hit.created_at_i ? new Date(hit.created_at_i * 1000) : parseDate(hit.created_at),
+        description: hit.story_text ? stripHtml(hit.story_text).slice(0, 300) : '',
+        relevanceScore: 0,
+        ...withEngagement('hackernews', hit.points || 0, hit.num_comments || 0, discussionUrl),
+      };
+    }));
+}
+
+async function loadLobsters(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  // source.url = listagem: "hottest", "newest" ou "t/<tag>"
+  const listing = (source.url || 'hottest').replace(/^\/+|\/+$/g, '').replace(/\.json$/, '');
+  const apiUrl = `https://lobste.rs/${listing}.json`;
+  const response = await conditionalGet(apiUrl, 'NewsAggregator/1.0', conditional, 'json');
+  if (!response) return null;
+
+  const stories: any[] = Array.isArray(response.data) ? response.data : [];
+  return withValidators(response, stories
+    .filter((story) => story.title && story.short_id)
+    .map((story) => {
+      const discussionUrl = story.comments_url || `https://lobste.rs/s/${story.short_id}`;
+      const submitter = typeof story.submitter_user === 'string' ? story.submitter_user : story.submitter_user?.username;
+      return {
+        title: story.title,
+        link: story.url || discussionUrl,
+        source: source.name,
+        category: source.category,
+        author: submitter || undefined,
+        publishedAt: parseDate(story.created_at),
+        description: (story.description_plain || '').slice(0, 300),
+        relevanceScore: 0,
+        ...withEngagement('lobsters', story.score || 0, story.comment_count || 0, discussionUrl),
+      };
+    }));
+}
+
+// Cache do id de contas Mastodon ("instância/@usuário" → id)
+const mastodonAccountIds = new Map<string, string>();
+
+async function mastodonTimelineUrl(instance: string, target: string): Promise<string> {
+  if (target.startsWith('tags/')) {
+    return `https://${instance}/api/v1/timelines/tag/${encodeURIComponent(target.slice(5))}?limit=40`;
+  }
+
+  const acct = target.replace(/^@/, '');
+  const key = `${instance}/${acct}`;
+  let id = mastodonAccountIds.get(key);
+  if (!id) {
+    const { data } = await axios.get(`https://${instance}/api/v1/accounts/lookup?acct=${encodeURIComponent(acct)}`, {
       timeout: 15000,
-      headers: { 'User-Agent': 'NewsAggregator/1.0 (by /u/newsbot)' },
+      headers: { 'User-Agent': 'NewsAggregator/1.0' },
     });
+    if (!data?.id) throw new Error(`Conta ${acct} não encontrada em ${instance}`);
+    id = String(data.id);
+    mastodonAccountIds.set(key, id);
+  }
+  return `https://${instance}/api/v1/accounts/${id}/statuses?limit=40&exclude_replies=true`;
+}
 
-    if (!data?.data?.children) return [];
-
-    return data.data.children
-      .filter((child: any) => child.data && !child.data.stickied)
-      .map((child: any) => {
-        const post = child.data;
-        const hasExternalUrl = post.url && !post.url.includes('reddit.com');
-        return {
-          title: post.title || 'Sem título',
-          link: hasExternalUrl ? post.url : `https://www.reddit.com${post.permalink}`,
-          source: `Reddit r/${subreddit}`,
-          publishedAt: new Date(post.created_utc * 1000),
-          description: post.selftext?.slice(0, 300) || '',
-          relevanceScore: 0,
-          scoreBreakdown: DEFAULT_BREAKDOWN,
-        };
-      });
-  } catch (err) {
-    console.error(`[fetcher] Erro ao buscar Reddit r/${source.url}: ${err}`);
-    return [];
+/**
+ * Mastodon: source.url = "instância/tags/hashtag" ou "instância/@conta".
+ * Posts com card de link apontam para a matéria; os demais, para o post.
+ */
+async function loadMastodon(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const [instance, ...rest] = source.url.split('/');
+  const apiUrl = await mastodonTimelineUrl(instance, rest.join('/'));
+  const response = await conditionalGet(apiUrl, 'NewsAggregator/1.0', conditional, 'json');
+  if (!response) return null;
+
+  const statuses: any[] = Array.isArray(response.data) ? response.data : [];
+  return withValidators(response, statuses
+    .map((status) => status.reblog || status)
+    .filter((status) => status.url && (status.card?.url || status.content))
+    .map((status) => {
+      const text = stripHtml(status.content || '');
+      return {
+        title: status.card?.title || text.slice(0, 120) || 'Sem título',
+        link: status.card?.url || status.url,
+        source: source.name,
+        category: source.category,
+        author: status.account?.display_name || status.account?.acct || undefined,
+        publishedAt: parseDate(status.created_at),
+        description: status.card?.description || text,
+        relevanceScore: 0,
+        ...withEngagement(
+          'mastodon',
+          (status.reblogs_count || 0) + (status.favourites_count || 0),
+          status.replies_count || 0,
+          status.url
+        ),
+      };
+    }));
+}
+
+/**
+ * Bluesky via AppView pública: source.url = "at://..." de um feed
+ * (app.bsky.feed.getFeed) ou um termo de busca (app.bsky.feed.searchPosts).
+ */
+async function loadBluesky(source: FeedSource, conditional: ConditionalHeaders): Promise<LoaderResult | null> {
+  const base = 'https://public.api.bsky.app/xrpc';
+  const apiUrl = source.url.startsWith('at://')
+    ? `${base}/app.bsky.feed.getFeed?feed=${encodeURIComponent(source.url)}&limit=30`
+    : `${base}/app.bsky.feed.searchPosts?q=${encodeURIComponent(source.url)}&sort=top&limit=30`;
+  const response = await conditionalGet(apiUrl, 'NewsAggregator/1.0', conditional, 'json');
+  if (!response) return null;
+
+  // getFeed devolve { feed: [{ post }] }; searchPosts, { posts: [post] }
+  const posts: any[] = response.data?.feed
+    ? response.data.feed.map((entry: any) => entry.post)
+    : response.data?.posts || [];
+
+  return withValidators(response, posts
+    .filter((post) => post?.uri && post.author?.handle)
+    .map((post) => {
+      const rkey = post.uri.split('/').pop();
+      const postUrl = `https://bsky.app/profile/${post.author.handle}/post/${rkey}`;
+      const external = post.embed?.external;
+      const text: string = post.record?.text || '';
+      return {
+        title: external?.title || text.split('\n')[0].slice(0, 120) || 'Sem título',
+        link: external?.uri || postUrl,
+        source: source.name,
+        category: source.category,
+        author: post.author.displayName || post.author.handle,
+        publishedAt: parseDate(post.record?.createdAt || post.indexedAt),
+        description: external?.description || text,
+        relevanceScore: 0,
+        ...withEngagement('bluesky', (post.likeCount || 0) + (post.repostCount || 0), post.replyCount || 0, postUrl),
+      };
+    }));
+}
+
+type SourceLoader = (source: FeedSource, conditional: ConditionalHeaders) => Promise<LoaderResult | null>;
+
+const LOADERS: Record<FeedSource['type'], SourceLoader> = {
+  rss: loadRSS,
+  atom: loadRSS,
+  jsonfeed: loadJsonFeed,
+  sitemap: loadSitemap,
+  http: loadHTTP,
+  reddit: loadReddit,
+  hackernews: loadHackerNews,
+  lobsters: loadLobsters,
+  mastodon: loadMastodon,
+  bluesky: loadBluesky,
+};
+
+// Fontes que apenas repassam links de terceiros: vale a autoridade do domínio do link
+const AGGREGATOR_TYPES = new Set<FeedSource['type']>(['reddit', 'hackernews', 'lobsters', 'mastodon', 'bluesky']);
+
+let domainAuthority: Record<string, number> = {};
+
+export function setDomainAuthority(weights: Record<string, number>): void {
+  domainAuthority = Object.fromEntries(
+    Object.entries(weights).map(([domain, weight]) => [domain.toLowerCase().replace(/^www\./, ''), weight])
+  );
+}
+
+/**
+ * Peso do domínio do link, procurando do host completo para os pais
+ * ("g1.globo.com", depois "globo.com"). undefined se não configurado.
+ */
+function linkAuthority(link: string): number | undefined {
+  let host: string;
+  try {
+    host = new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
   }
+  for (let labels = host.split('.'); labels.length >= 2; labels = labels.slice(1)) {
+    const weight = domainAuthority[labels.join('.')];
+    if (weight !== undefined) return weight;
+  }
+  return undefined;
+}
+
+function itemAuthority(source: FeedSource, item: NewsItem): number {
+  const fallback = source.authority ?? 1;
+  return AGGREGATOR_TYPES.has(source.type) ? linkAuthority(item.link) ?? fallback : fallback;
+}
+
+function cacheKey(source: FeedSource): string {
+  return `${source.type}:${source.url}`;
+}
+
+/**
+ * Busca uma fonte propagando o erro (para validação e monitoramento).
+ * Passa pelo cache compartilhado: respeita o TTL, usa requests condicionais
+ * e junta chamadas simultâneas para a mesma fonte. A autoridade é aplicada
+ * em cópias, já que os itens do cache são compartilhados.
+ */
+export async function fetchSourceOrThrow(source: FeedSource): Promise<NewsItem[]> {
+  const loader = LOADERS[source.type];
+  const items = await cachedFetch(cacheKey(source), (conditional) => loader(source, conditional));
+  return items.map((item) => ({ ...item, authority: itemAuthority(source, item) }));
 }
 
+/**
+ * Mesma URL em mais de uma fonte: fica o primeiro item, mas se a cópia
+ * descartada veio de uma fonte com engajamento nativo, ele é aproveitado.
+ */
 function deduplicateByUrl(items: NewsItem[]): NewsItem[] {
-  const seen = new Set<string>();
-  return items.filter((item) => {
+  const seen = new Map<string, NewsItem>();
+  const unique: NewsItem[] = [];
+  for (const item of items) {
     const normalized = item.link.replace(/\/+$/, '').toLowerCase();
-    if (seen.has(normalized)) return false;
-    seen.add(normalized);
-    return true;
-  });
+    const kept = seen.get(normalized);
+    if (!kept) {
+      seen.set(normalized, item);
+      unique.push(item);
+    } else if (item.engagement && !kept.engagement) {
+      const merged = { ...kept, engagement: item.engagement, scoreBreakdown: item.scoreBreakdown };
+      seen.set(normalized, merged);
+      unique[unique.indexOf(kept)] = merged;
+    }
+  }
+  return unique;
+}
+
+/**
+ * Busca uma fonte registrando sucesso/falha, latência e contagem de itens.
+ * Respostas do cache e requests compartilhados não contam de novo na saúde da fonte.
+ */
+async function fetchMonitored(source: FeedSource): Promise<NewsItem[]> {
+  const started = Date.now();
+  const fromCache = isServedFromCache(cacheKey(source));
+  try {
+    const items = await fetchSourceOrThrow(source);
+    if (!fromCache) recordFetchSuccess(source.name, items.length, Date.now() - started);
+    return items;
+  } catch (err) {
+    console.error(`[fetcher] Erro ao buscar ${source.type.toUpperCase()} de ${source.name}: ${err}`);
+    if (!fromCache) recordFetchFailure(source.name, err, Date.now() - started);
+    return [];
+  }
 }
 
 export async function fetchAll(sources: FeedSource[]): Promise<NewsItem[]> {
-  const promises = sources.map((source) => {
-    if (source.type === 'rss') return fetchRSS(source);
-    if (source.type === 'reddit') return fetchReddit(source);
-    return fetchHTTP(source);
-  });
+  const active = sources.filter((source) => source.enabled !== false);
+  const ready = active.filter((source) => !isBackedOff(source.name));
+  if (ready.length < active.length) {
+    console.log(`[fetcher] ${active.length - ready.length} fontes em backoff, puladas nesta rodada`);
+  }
 
-  const results = await Promise.allSettled(promises);
+  const results = await Promise.allSettled(ready.map((source) => fetchMonitored(source)));
   const allItems: NewsItem[] = [];
 
   for (const result of results) {
@@ -126,7 +476,10 @@ export async function fetchAll(sources: FeedSource[]): Promise<NewsItem[]> {
       allItems.push(...result.value);
     }
   }
+  saveFeedHealth();
 
   console.log(`[fetcher] Total de itens buscados: ${allItems.length}`);
-  return deduplicateByUrl(allItems);
+  const unique = deduplicateByUrl(allItems);
+  recordArticles(unique);
+  return unique;
 }
@@ -0,0 +1,58 @@
+export type Language = 'pt' | 'en';
+
+export const SUPPORTED_LANGUAGES: Language[] = ['pt', 'en'];
+
+const MESSAGES = {
+  pt: {
+    locale: 'pt-BR',
+    readMore: 'Ler mais',
+    ago: 'atrás',
+    trendingHeader: 'Trending',
+    trendingEmpty: 'Nenhuma notícia nova encontrada no momento.',
+    latestHeader: 'Mais recentes',
+    latestEmpty: 'Nenhuma notícia recente encontrada.',
+    moneyHeader: '💰 Mercados &amp; Economia',
+    moneyEmpty: 'Nenhuma notícia financeira encontrada no momento.',
+    today: 'hoje',
+    recapDaily: '📅 Resumo do dia',
+    recapWeekly: '🗓 Resumo da semana',
+    recapEmpty: 'nada rankeado neste período ainda.',
+    recapStats: '{stories} histórias · {ranked} notícias no topo em {runs} rodadas',
+    recapOther: 'outras',
+    outlets: '{count} fontes',
+    summaryUnavailable: 'Não foi possível resumir esta matéria.',
+  },
+  en: {
+    locale: 'en-US',
+    readMore: 'Read more',
+    ago: 'ago',
+    trendingHeader: 'Trending',
+    trendingEmpty: 'No new stories found right now.',
+    latestHeader: 'Latest',
+    latestEmpty: 'No recent stories found.',
+    moneyHeader: '💰 Markets &amp; Economy',
+    moneyEmpty: 'No market news found right now.',
+    today: 'today',
+    recapDaily: '📅 Daily recap',
+    recapWeekly: '🗓 Weekly recap',
+    recapEmpty: 'nothing ranked in this period yet.',
+    recapStats: '{stories} stories · {ranked} top stories across {runs} runs',
+    recapOther: 'other',
+    outlets: '{count} outlets',
+    summaryUnavailable: 'Could not summarize this article.',
+  },
+};
+
+export type MessageKey = keyof typeof MESSAGES['pt'];
+
+export function isLanguage(value: string): value is Language {
+  return (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Mensagem no idioma do chat; "{nome}" é trocado por vars.nome.
+ */
+export function t(lang: Language, key: MessageKey, vars: Record<string, string | number> = {}): string {
+  const message: string = (MESSAGES[lang] || MESSAGES.pt)[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => (name in vars ? String(vars[name]) : placeholder));
+}
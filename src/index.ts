@@ -1,12 +1,83 @@
 import { loadConfig } from './config';
-import { fetchAll } from './fetcher';
-import { computeRelevance } from './popularity';
-import { rankNews } from './ranker';
-import { sendNews, sendLatestNews, sendSourcesList, sendHelp } from './telegram';
-import { NewsItem } from './types';
+import { fetchAll, setDomainAuthority } from './fetcher';
+import { computeRelevance, setSocialLookupsPerRun } from './popularity';
+import { setMastodonInstance, setSocialCacheTtl } from './social';
+import { applyProfile, getProfile, listProfiles, setRankingProfiles } from './scoring';
+import { findTopics } from './topics';
+import { getTopOfDay, getTopOfPeriod, rankNews } from './ranker';
+import { getRankedSince, recordRankingRun } from './runHistory';
+import { getSummary, withSummaries } from './summarizer';
+import {
+  sendNews,
+  sendLatestNews,
+  sendMoneyNews,
+  sendSourcesList,
+  sendHelp,
+  registerBotCommands,
+  BOT_COMMANDS,
+  sendSubscriptionStatus,
+  sendWatchAlert,
+  sendWatchlist,
+  sendSearchResults,
+  sendStoryCoverage,
+  sendScoreExplanation,
+  sendQuote,
+  sendSummary,
+  sendRecap,
+  RecapPeriod,
+  sendSimilarArticles,
+  showDigestPage,
+  sendSavedArticles,
+  sendSavedExport,
+  sendBotStatus,
+  sendTopics,
+} from './telegram';
+import { NewsItem, RankingProfile } from './types';
 import { sendMemes } from './memes';
-import { sendMoneyNews } from './money';
 import { finalDedup } from './dedup';
+import { quietHoursLength, startScheduler, stopScheduler, ScheduledJob } from './scheduler';
+import {
+  ChatPreferences,
+  getSubscription,
+  isDigestDue,
+  listSubscriptions,
+  markDigestSent,
+  seedSubscription,
+  subscribe,
+  unsubscribe,
+  wantsScheduledDigests,
+} from './subscriptions';
+import { isLanguage, SUPPORTED_LANGUAGES } from './i18n';
+import { createFixtureQuoteProvider, getMoneyQuotes, getQuote, normalizeSymbol, setQuoteProvider, tagTickers } from './quotes';
+import { parseArgs, parseDuration } from './args';
+import { filterUnsent, setSentHistoryRetention } from './sentHistory';
+import { findSimilarArticles, searchArticles } from './articleStore';
+import { getDigest, getDigestItem } from './lastDigest';
+import { countFeedback, personalize, recordFeedback } from './feedback';
+import { filterMuted, listMutedSources, muteSource, unmuteSource } from './mutedSources';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportSavedArticles,
+  listSavedArticles,
+  removeSavedArticle,
+  saveArticle,
+} from './savedArticles';
+import { addWatchTerm, collectWatchAlerts, hasWatchTerms, listWatchTerms, removeWatchTerm } from './watchlist';
+import {
+  addFeed,
+  defaultFeedName,
+  FEED_TYPES,
+  findFeed,
+  isFeedType,
+  normalizeFeedUrl,
+  removeFeed,
+  setFeedEnabled,
+  sourceCaps,
+  validateFeedSource,
+} from './feedManager';
+import { getFeedHealth } from './feedHealth';
+import { setFetchCacheTtl } from './fetchCache';
 import TelegramBot from 'node-telegram-bot-api';
 
 // ============================================================
@@ -17,11 +88,47 @@ const config = loadConfig();
 
 const LATEST_MAX_AGE_HOURS = 1;
 const LATEST_MAX_ITEMS = 15;
+const WATCH_LOOKBACK_HOURS = 3;
+const SEARCH_PAGE_SIZE = 8;
+const TOPICS_LIMIT = 10;
+const RECAP_STORIES = 10;
+const RECAP_HOURS: Record<RecapPeriod, number> = { daily: 24, weekly: 7 * 24 };
+const SEARCH_DEFAULT_SINCE = '3d';
+
+setSentHistoryRetention(config.sentHistoryHours);
+setFetchCacheTtl(config.fetchCacheTtlMinutes);
+setDomainAuthority(config.domainAuthority);
+setMastodonInstance(config.mastodonInstance);
+setSocialCacheTtl(config.socialCacheTtlMinutes);
+setSocialLookupsPerRun(config.socialLookupsPerRun);
+setRankingProfiles(config.rankingProfiles, config.defaultRankingProfile);
+if (config.quoteProvider === 'fixture') {
+  if (config.quoteFixtureFile) setQuoteProvider(createFixtureQuoteProvider(config.quoteFixtureFile));
+  else console.warn('[quotes] QUOTE_PROVIDER=fixture sem quotes.fixture.json — usando Yahoo');
+}
 
 function log(tag: string, msg: string): void {
   console.log(`[${tag}] ${new Date().toISOString()} - ${msg}`);
 }
 
+/**
+ * Categoria ligada a um comando dedicado ("command" em feeds.json categories).
+ * Sem ela o comando fica desativado — avisa já na inicialização.
+ */
+function categoryForCommand(command: string): string | null {
+  const found = Object.entries(config.categories).find(([, c]) => c.command === command);
+  if (!found) {
+    console.error(`[config] Nenhuma categoria com "command": "${command}" em feeds.json — /${command} desativado`);
+    return null;
+  }
+  if (!config.feeds.some((f) => f.category === found[0])) {
+    console.error(`[config] Categoria "${found[0]}" do /${command} não tem fontes em feeds.json`);
+  }
+  return found[0];
+}
+
+const MONEY_CATEGORY = categoryForCommand('money');
+
 // ============================================================
 // BOT
 // ============================================================
@@ -94,6 +201,7 @@ async function shutdown(signal: string): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
   log('shutdown', `Recebido ${signal}, desligando...`);
+  stopScheduler();
   try { await bot.stopPolling(); } catch {}
   process.exit(0);
 }
@@ -129,6 +237,29 @@ function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise
 // PIPELINES
 // ============================================================
 
+// CHECK_INTERVAL_MINUTES=0 desliga só o job de trending (ele nem é agendado);
+// o intervalo do chat continua valendo para money, latest e resumos
+const DEFAULT_DIGEST_INTERVAL_MINUTES = 30;
+
+const DEFAULT_PREFERENCES: ChatPreferences = {
+  categories: [],
+  digestIntervalMinutes: config.checkIntervalMinutes > 0 ? config.checkIntervalMinutes : DEFAULT_DIGEST_INTERVAL_MINUTES,
+  maxNewsPerSend: config.maxNewsPerSend,
+  language: 'pt',
+};
+
+function preferencesFor(chatId: string): ChatPreferences {
+  return getSubscription(chatId) || DEFAULT_PREFERENCES;
+}
+
+/**
+ * Sem filtro, tudo menos as categorias verticais (que têm comando próprio).
+ */
+function inCategories(item: NewsItem, categories: string[]): boolean {
+  if (categories.length === 0) return !item.category || !config.categories[item.category]?.vertical;
+  return !!item.category && categories.includes(item.category);
+}
+
 async function fetchLatest(): Promise<NewsItem[]> {
   const rawItems = await withTimeout(fetchAll(config.feeds), 60000, 'fetchAll/latest');
   const now = Date.now();
@@ -140,15 +271,62 @@ async function fetchLatest(): Promise<NewsItem[]> {
     })
     .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
 
-  const clean = finalDedup(recent);
-  return clean.slice(0, LATEST_MAX_ITEMS);
+  return finalDedup(recent);
+}
+
+function pickLatest(chatId: string, items: NewsItem[], prefs: ChatPreferences): NewsItem[] {
+  return filterMuted(chatId, filterUnsent(chatId, items))
+    .filter((item) => inCategories(item, prefs.categories))
+    .slice(0, LATEST_MAX_ITEMS);
+}
+
+// Busca em andamento: jobs (trending e money no mesmo tick) e comandos esperam a mesma
+let trendingInFlight: Promise<NewsItem[]> | null = null;
+
+/**
+ * Busca e pontua todas as fontes. O resultado é compartilhado entre os
+ * chats — cada um só aplica seu filtro de categorias e limite no ranking.
+ */
+function collectTrending(): Promise<NewsItem[]> {
+  if (!trendingInFlight) {
+    trendingInFlight = runCollectTrending().finally(() => { trendingInFlight = null; });
+  }
+  return trendingInFlight;
 }
 
-async function runTrendingPipeline(): Promise<NewsItem[]> {
+async function runCollectTrending(): Promise<NewsItem[]> {
   log('trending', 'Iniciando busca...');
+  const recent = await fetchRecent('trending');
+  const enriched = await withTimeout(computeRelevance(recent), 90000, 'computeRelevance');
+  recordRankingRun(enriched);
+  return enriched;
+}
 
-  const rawItems = await withTimeout(fetchAll(config.feeds), 60000, 'fetchAll/trending');
-  log('trending', `${rawItems.length} itens brutos`);
+/**
+ * Melhores histórias do período a partir do histórico de rodadas (não só da
+ * última busca), com os filtros de fonte e categoria do chat.
+ */
+function buildRecap(
+  chatId: string,
+  prefs: ChatPreferences,
+  period: RecapPeriod
+): { stories: NewsItem[]; runs: number; ranked: number } {
+  const hours = RECAP_HOURS[period];
+  const { runs, items } = getRankedSince(Date.now() - hours * 60 * 60 * 1000);
+  const candidates = filterMuted(chatId, items).filter((item) => inCategories(item, prefs.categories));
+  const caps = sourceCaps(config.feeds);
+  const stories = period === 'daily'
+    ? getTopOfDay(candidates, RECAP_STORIES, caps)
+    : getTopOfPeriod(candidates, RECAP_STORIES, hours, caps);
+  return { stories, runs, ranked: candidates.length };
+}
+
+/**
+ * Itens dentro de NEWS_MAX_AGE_HOURS, mais novos primeiro (sem pontuação).
+ */
+async function fetchRecent(tag: string): Promise<NewsItem[]> {
+  const rawItems = await withTimeout(fetchAll(config.feeds), 60000, `fetchAll/${tag}`);
+  log(tag, `${rawItems.length} itens brutos`);
 
   const now = Date.now();
   const recent = rawItems
@@ -158,45 +336,347 @@ async function runTrendingPipeline(): Promise<NewsItem[]> {
     })
     .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
 
-  log('trending', `${recent.length} itens após filtro de idade`);
+  log(tag, `${recent.length} itens após filtro de idade`);
+  return recent;
+}
 
-  const enriched = await withTimeout(computeRelevance(recent), 90000, 'computeRelevance');
-  const ranked = rankNews(enriched, config.maxNewsPerSend, config.newsMaxAgeHours);
+/**
+ * Perfil explícito (ex: /trend breaking) > perfil do chat > padrão.
+ * Os votos 👍/👎 do chat somam o termo de personalização.
+ */
+function rankForChat(chatId: string, enriched: NewsItem[], prefs: ChatPreferences, profile?: RankingProfile): NewsItem[] {
+  const chosen = profile || getProfile(prefs.profile) || getProfile()!;
+  const candidates = filterMuted(chatId, enriched).filter((item) => inCategories(item, prefs.categories));
+  const ranked = rankNews(
+    personalize(chatId, applyProfile(candidates, chosen)),
+    prefs.maxNewsPerSend,
+    config.newsMaxAgeHours,
+    chatId,
+    sourceCaps(config.feeds)
+  );
   const clean = finalDedup(ranked);
 
   log('trending', `${ranked.length} rankeados → ${clean.length} após dedup final`);
   return clean;
 }
 
+/**
+ * Mesmo pipeline do trending, restrito a uma categoria. Perfil explícito >
+ * perfil configurado na categoria (feeds.json) > perfil do chat.
+ */
+function rankCategory(
+  chatId: string,
+  enriched: NewsItem[],
+  prefs: ChatPreferences,
+  category: string,
+  profile?: RankingProfile
+): NewsItem[] {
+  const profileName = config.categories[category]?.profile;
+  const chosen = profile || (profileName ? getProfile(profileName) : undefined);
+  return rankForChat(chatId, enriched, { ...prefs, categories: [category] }, chosen);
+}
+
+// ============================================================
+// CATEGORY COMMANDS
+// ============================================================
+
+// Comandos fixos e apelidos: uma categoria com o mesmo nome só funciona via /cat
+const RESERVED_COMMANDS = new Set([...BOT_COMMANDS.map((c) => c.command), 'last', 'trend', 'start']);
+
+function listCategories(): string[] {
+  return [...new Set(config.feeds.filter((f) => f.enabled !== false).map((f) => f.category))].sort();
+}
+
+/**
+ * Categorias que viram comando (/tech): nome aceito pelo Telegram e sem
+ * conflito com comandos existentes.
+ */
+function categoryCommands(): string[] {
+  return listCategories().filter((c) => /^[a-z0-9_]{1,32}$/.test(c) && !RESERVED_COMMANDS.has(c));
+}
+
+function refreshBotCommands(): void {
+  registerBotCommands(bot, categoryCommands())
+    .then(() => log('commands', `Menu atualizado (${categoryCommands().length} categorias)`))
+    .catch((err) => log('commands', `Erro ao registrar comandos: ${err}`));
+}
+
+/**
+ * Com o modo resumo do chat ativo, busca e resume cada matéria antes do envio.
+ * Se demorar demais, o digest sai sem resumos.
+ */
+async function summarizeFor(prefs: ChatPreferences, items: NewsItem[]): Promise<NewsItem[]> {
+  if (!prefs.summaries || items.length === 0) return items;
+  return withTimeout(withSummaries(items), 60000, 'summaries').catch((err) => {
+    log('summary', `Digest sem resumos: ${err}`);
+    return items;
+  });
+}
+
+async function sendTrendingDigest(chatId: string, items: NewsItem[], prefs: ChatPreferences, label?: string): Promise<void> {
+  await sendNews(bot, chatId, await summarizeFor(prefs, items), prefs.language, label);
+}
+
+/**
+ * Digest de mercado: marca os tickers citados nos títulos e busca o snapshot
+ * e as cotações deles. Sem cotações, as notícias saem mesmo assim.
+ */
+async function sendMoneyDigest(chatId: string, items: NewsItem[], prefs: ChatPreferences): Promise<void> {
+  const tagged = tagTickers(await summarizeFor(prefs, items));
+  const quotes = await withTimeout(getMoneyQuotes(tagged), 20000, 'quotes').catch((err) => {
+    log('money', `Cotações indisponíveis: ${err}`);
+    return {};
+  });
+  await sendMoneyNews(bot, chatId, tagged, prefs.language, quotes);
+}
+
+async function sendCategory(chatId: string, category: string, profileName?: string): Promise<void> {
+  const prefs = preferencesFor(chatId);
+  const profile = profileName ? getProfile(profileName) : undefined;
+  if (profileName && !profile) {
+    await bot.sendMessage(chatId, `Perfil desconhecido: ${profileName}\nDisponíveis: ${listProfiles().map((p) => p.name).join(', ')}`);
+    return;
+  }
+
+  await bot.sendMessage(chatId, `🔍 Buscando trending de ${category}...`);
+  const items = rankCategory(chatId, await collectTrending(), prefs, category, profile);
+  log('category', `Enviando ${items.length} notícias de ${category}`);
+  if (category === MONEY_CATEGORY) await sendMoneyDigest(chatId, items, prefs);
+  else await sendTrendingDigest(chatId, items, prefs, category);
+}
+
+async function runTrendingPipeline(chatId: string, prefs: ChatPreferences, profile?: RankingProfile): Promise<NewsItem[]> {
+  return rankForChat(chatId, await collectTrending(), prefs, profile);
+}
+
+// ============================================================
+// SCHEDULED DIGESTS
+// ============================================================
+
+/**
+ * Envia um digest agendado para um chat inscrito.
+ * Com SKIP_EMPTY_DIGESTS, digests vazios não geram mensagem.
+ */
+async function pushDigest(
+  tag: string,
+  chatId: string,
+  items: NewsItem[],
+  send: () => Promise<void>
+): Promise<void> {
+  if (items.length === 0 && config.skipEmptyDigests) {
+    log(tag, `Nenhuma notícia nova para ${chatId}, digest não enviado`);
+    return;
+  }
+  log(tag, `Enviando digest agendado com ${items.length} notícias para ${chatId}`);
+  try {
+    await send();
+  } catch (err) {
+    log(tag, `Erro ao enviar para ${chatId}: ${err}`);
+  }
+}
+
+async function pushTrendingDigests(): Promise<void> {
+  const due = listSubscriptions().filter((sub) => isDigestDue(sub));
+  if (due.length === 0) return;
+
+  const enriched = await collectTrending();
+  for (const sub of due) {
+    const items = rankForChat(sub.chatId, enriched, sub);
+    await pushDigest('trending', sub.chatId, items, () => sendTrendingDigest(sub.chatId, items, sub));
+    markDigestSent(sub.chatId);
+  }
+}
+
+async function pushMoneyDigests(): Promise<void> {
+  if (!MONEY_CATEGORY) return;
+  // Sem filtro de categorias o chat recebe tudo; com filtro, só se incluir a de mercado
+  const subs = listSubscriptions().filter(
+    (sub) => wantsScheduledDigests(sub) && (sub.categories.length === 0 || sub.categories.includes(MONEY_CATEGORY))
+  );
+  if (subs.length === 0) return;
+
+  const enriched = await collectTrending();
+  for (const sub of subs) {
+    const items = rankCategory(sub.chatId, enriched, sub, MONEY_CATEGORY);
+    await pushDigest('money', sub.chatId, items, () => sendMoneyDigest(sub.chatId, items, sub));
+  }
+}
+
+async function pushLatestDigests(): Promise<void> {
+  const subs = listSubscriptions().filter(wantsScheduledDigests);
+  if (subs.length === 0) return;
+
+  const recent = await fetchLatest();
+  for (const sub of subs) {
+    const items = pickLatest(sub.chatId, recent, sub);
+    await pushDigest('latest', sub.chatId, items, () => sendLatestNews(bot, sub.chatId, items, sub.language));
+  }
+}
+
+async function pushRecaps(period: RecapPeriod): Promise<void> {
+  const subs = listSubscriptions().filter(wantsScheduledDigests);
+  for (const sub of subs) {
+    const { stories, ...stats } = buildRecap(sub.chatId, sub, period);
+    await pushDigest(period, sub.chatId, stories, () => sendRecap(bot, sub.chatId, period, stories, stats, sub.language));
+  }
+}
+
+/**
+ * Varre todas as fontes e dispara alertas das watchlists.
+ */
+async function pushWatchAlerts(): Promise<void> {
+  if (!hasWatchTerms()) return;
+
+  const items = await withTimeout(fetchAll(config.feeds), 60000, 'fetchAll/watch');
+  // A janela cobre o horário silencioso: o que saiu de madrugada alerta na primeira rodada da manhã
+  const alerts = collectWatchAlerts(items, WATCH_LOOKBACK_HOURS + quietHoursLength(config.quietHours));
+  if (alerts.length > 0) log('watch', `${alerts.length} alertas novos`);
+
+  for (const alert of alerts) {
+    try {
+      await sendWatchAlert(bot, alert.chatId, alert.query, alert.cluster, preferencesFor(alert.chatId).language);
+    } catch (err) {
+      log('watch', `Erro ao alertar ${alert.chatId}: ${err}`);
+    }
+  }
+}
+
+seedSubscription(config.telegramChatId, DEFAULT_PREFERENCES);
+
+const scheduledJobs: ScheduledJob[] = [
+  {
+    name: 'trending',
+    intervalMinutes: config.checkIntervalMinutes,
+    run: pushTrendingDigests,
+  },
+  {
+    name: 'watchlist',
+    intervalMinutes: config.watchIntervalMinutes,
+    run: pushWatchAlerts,
+  },
+];
+
+if (config.moneyCron) {
+  scheduledJobs.push({ name: 'money', cron: config.moneyCron, run: pushMoneyDigests });
+}
+
+if (config.latestCron) {
+  scheduledJobs.push({ name: 'latest', cron: config.latestCron, run: pushLatestDigests });
+}
+
+if (config.dailyCron) {
+  scheduledJobs.push({ name: 'daily', cron: config.dailyCron, run: () => pushRecaps('daily') });
+}
+
+if (config.weeklyCron) {
+  scheduledJobs.push({ name: 'weekly', cron: config.weeklyCron, run: () => pushRecaps('weekly') });
+}
+
+startScheduler(scheduledJobs, {
+  quietHours: config.quietHours,
+  timezone: config.scheduleTimezone,
+});
+
 // ============================================================
 // BOT COMMANDS
 // ============================================================
 
 bot.onText(/\/(latest|last)/, async (msg) => {
   const chatId = msg.chat.id.toString();
+  const prefs = preferencesFor(chatId);
   try {
     await bot.sendMessage(chatId, '🔍 Buscando notícias da última hora...');
-    const latest = await fetchLatest();
-    await sendLatestNews(bot, chatId, latest);
+    const latest = pickLatest(chatId, await fetchLatest(), prefs);
+    await sendLatestNews(bot, chatId, latest, prefs.language);
   } catch (err) {
     log('latest', `Erro: ${err}`);
     try { await bot.sendMessage(chatId, `Erro ao buscar notícias: ${err}`); } catch {}
   }
 });
 
-bot.onText(/\/trend/, async (msg) => {
+bot.onText(/^\/trend(?:ing)?(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
   const chatId = msg.chat.id.toString();
+  const prefs = preferencesFor(chatId);
   try {
-    await bot.sendMessage(chatId, '🔍 Buscando trending... aguarde ~30s');
-    const topItems = await runTrendingPipeline();
+    const args = match?.[1]?.trim().split(/\s+/) || [];
+    if (args.length > 1) {
+      await bot.sendMessage(chatId, `Uso: /trend [perfil]\nPerfis: ${listProfiles().map((p) => p.name).join(', ')}`);
+      return;
+    }
+    const profile = args[0] ? getProfile(args[0]) : undefined;
+    if (args[0] && !profile) {
+      await bot.sendMessage(chatId, `Perfil desconhecido: ${args[0]}\nDisponíveis: ${listProfiles().map((p) => p.name).join(', ')}`);
+      return;
+    }
+    await bot.sendMessage(chatId, profile ? `🔍 Buscando trending (perfil ${profile.name})...` : '🔍 Buscando trending...');
+    const topItems = await runTrendingPipeline(chatId, prefs, profile);
     log('trending', `Enviando ${topItems.length} notícias`);
-    await sendNews(bot, chatId, topItems);
+    await sendTrendingDigest(chatId, topItems, prefs);
   } catch (err) {
     log('trending', `Erro: ${err}`);
     try { await bot.sendMessage(chatId, `Erro: ${err}`); } catch {}
   }
 });
 
+bot.onText(/^\/cat(?:@\w+)?(?:\s+(\S+))?(?:\s+(\S+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const categories = listCategories();
+    const category = match?.[1]?.toLowerCase();
+    if (!category || !categories.includes(category)) {
+      const prefix = category ? `Categoria desconhecida: ${category}\n` : 'Uso: /cat <categoria> [perfil]\n';
+      await bot.sendMessage(chatId, `${prefix}Disponíveis: ${categories.join(', ')}`);
+      return;
+    }
+    await sendCategory(chatId, category, match?.[2]);
+  } catch (err) {
+    log('category', `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro: ${err}`); } catch {}
+  }
+});
+
+// /tech, /brasil... — gerados das categorias atuais (fontes podem mudar em runtime)
+bot.onText(/^\/([a-z0-9_]+)(?:@\w+)?(?:\s+(\S+))?$/, async (msg, match) => {
+  const category = match![1];
+  if (!categoryCommands().includes(category)) return;
+  const chatId = msg.chat.id.toString();
+  try {
+    await sendCategory(chatId, category, match?.[2]);
+  } catch (err) {
+    log('category', `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro: ${err}`); } catch {}
+  }
+});
+
+bot.onText(/^\/(daily|weekly)(?:@\w+)?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  const period = match![1] as RecapPeriod;
+  try {
+    const prefs = preferencesFor(chatId);
+    const { stories, ...stats } = buildRecap(chatId, prefs, period);
+    log(period, `${stories.length} histórias de ${stats.ranked} itens em ${stats.runs} rodadas`);
+    await sendRecap(bot, chatId, period, stories, stats, prefs.language);
+  } catch (err) {
+    log(period, `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro: ${err}`); } catch {}
+  }
+});
+
+bot.onText(/^\/topics(?:@\w+)?$/, async (msg) => {
+  const chatId = msg.chat.id.toString();
+  const prefs = preferencesFor(chatId);
+  try {
+    await bot.sendMessage(chatId, '🔍 Procurando assuntos em alta...');
+    const recent = filterMuted(chatId, await fetchRecent('topics')).filter((item) => inCategories(item, prefs.categories));
+    const topics = findTopics(recent, TOPICS_LIMIT);
+    log('topics', `${topics.length} termos em alta entre ${recent.length} itens`);
+    await sendTopics(bot, chatId, topics);
+  } catch (err) {
+    log('topics', `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro: ${err}`); } catch {}
+  }
+});
+
 bot.onText(/\/meme/, async (msg) => {
   const chatId = msg.chat.id.toString();
   try {
@@ -211,28 +691,401 @@ bot.onText(/\/meme/, async (msg) => {
 bot.onText(/\/money/, async (msg) => {
   const chatId = msg.chat.id.toString();
   try {
+    if (!MONEY_CATEGORY) {
+      await bot.sendMessage(chatId, 'Nenhuma categoria de mercado configurada em feeds.json.');
+      return;
+    }
     await bot.sendMessage(chatId, '🔍 Buscando notícias de mercado...');
-    await sendMoneyNews(bot, chatId, 10);
+    const prefs = preferencesFor(chatId);
+    const items = rankCategory(chatId, await collectTrending(), prefs, MONEY_CATEGORY);
+    await sendMoneyDigest(chatId, items, prefs);
   } catch (err) {
     log('money', `Erro: ${err}`);
     try { await bot.sendMessage(chatId, `Erro ao buscar notícias financeiras: ${err}`); } catch {}
   }
 });
 
+bot.onText(/^\/quote(?:@\w+)?(?:\s+(\S+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  if (!match?.[1]) {
+    try { await bot.sendMessage(chatId, 'Uso: /quote <ticker> — ex: /quote PETR4, /quote $AAPL, /quote ibov'); } catch {}
+    return;
+  }
+  const symbol = normalizeSymbol(match[1]);
+  try {
+    await sendQuote(bot, chatId, await getQuote(symbol), preferencesFor(chatId).language);
+  } catch (err) {
+    log('quote', `Erro (${symbol}): ${err}`);
+    try { await bot.sendMessage(chatId, `Não consegui a cotação de ${symbol}.`); } catch {}
+  }
+});
+
 bot.onText(/\/sources/, async (msg) => {
   const chatId = msg.chat.id.toString();
   try {
     await sendSourcesList(
       bot,
       chatId,
-      config.feeds.map((f) => ({ name: f.name, category: f.category }))
+      config.feeds.map((f) => ({ name: f.name, category: f.category, enabled: f.enabled }))
+    );
+  } catch {}
+});
+
+bot.onText(/^\/status/, async (msg) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    await sendBotStatus(
+      bot,
+      chatId,
+      process.uptime(),
+      config.feeds.map((source) => ({ source, health: getFeedHealth(source.name) }))
+    );
+  } catch (err) {
+    log('status', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/subscribe(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const { positional, flags } = parseArgs(match?.[1]);
+    const prefs: Partial<ChatPreferences> = {};
+    const known = new Set(config.feeds.map((f) => f.category));
+
+    if (positional.length > 0) {
+      const categories = positional.map((c) => c.toLowerCase());
+      const invalid = categories.filter((c) => c !== 'todas' && !known.has(c));
+      if (invalid.length > 0) {
+        await bot.sendMessage(chatId, `Categorias desconhecidas: ${invalid.join(', ')}\nDisponíveis: ${[...known].join(', ')}`);
+        return;
+      }
+      prefs.categories = categories.includes('todas') ? [] : categories;
+    }
+
+    if (flags.freq) {
+      const ms = flags.freq === 'off' ? 0 : parseDuration(flags.freq);
+      if (ms === null) {
+        await bot.sendMessage(chatId, 'Frequência inválida. Use por exemplo --freq 30m, 2h, 1d ou off.');
+        return;
+      }
+      prefs.digestIntervalMinutes = Math.round(ms / 60000);
+    }
+
+    if (flags.max) {
+      const max = parseInt(flags.max, 10);
+      if (isNaN(max) || max < 1 || max > 30) {
+        await bot.sendMessage(chatId, 'Valor inválido para --max (use entre 1 e 30).');
+        return;
+      }
+      prefs.maxNewsPerSend = max;
+    }
+
+    if (flags.lang) {
+      if (!isLanguage(flags.lang)) {
+        await bot.sendMessage(chatId, `Idioma inválido. Disponíveis: ${SUPPORTED_LANGUAGES.join(', ')}`);
+        return;
+      }
+      prefs.language = flags.lang;
+    }
+
+    if (flags.summary) {
+      if (flags.summary !== 'on' && flags.summary !== 'off') {
+        await bot.sendMessage(chatId, 'Valor inválido para --summary (use on ou off).');
+        return;
+      }
+      prefs.summaries = flags.summary === 'on';
+    }
+
+    if (flags.profile) {
+      const profile = getProfile(flags.profile);
+      if (!profile) {
+        await bot.sendMessage(chatId, `Perfil desconhecido. Disponíveis: ${listProfiles().map((p) => p.name).join(', ')}`);
+        return;
+      }
+      prefs.profile = profile.name;
+    }
+
+    const sub = subscribe(chatId, prefs, DEFAULT_PREFERENCES);
+    log('subscriptions', `Chat ${chatId} inscrito/atualizado`);
+    await sendSubscriptionStatus(bot, chatId, sub);
+  } catch (err) {
+    log('subscriptions', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/unsubscribe/, async (msg) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const removed = unsubscribe(chatId);
+    await bot.sendMessage(
+      chatId,
+      removed ? 'Inscrição cancelada. Você não receberá mais digests automáticos.' : 'Este chat não estava inscrito.'
     );
   } catch {}
 });
 
+bot.onText(/^\/watch(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  const query = match?.[1]?.trim();
+  try {
+    if (!query) {
+      await bot.sendMessage(chatId, 'Uso: /watch <termo>\nEx: /watch petrobras OR vale -"fundo imobiliário"');
+      return;
+    }
+    const error = addWatchTerm(chatId, query);
+    await bot.sendMessage(chatId, error || `👀 Monitorando: ${query}`);
+  } catch (err) {
+    log('watch', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/unwatch(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  const arg = match?.[1]?.trim();
+  try {
+    if (!arg) {
+      await sendWatchlist(bot, chatId, listWatchTerms(chatId));
+      return;
+    }
+    const removed = removeWatchTerm(chatId, arg);
+    await bot.sendMessage(chatId, removed ? `Removido: ${removed.query}` : 'Termo não encontrado na watchlist.');
+  } catch (err) {
+    log('watch', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/watchlist/, async (msg) => {
+  const chatId = msg.chat.id.toString();
+  try { await sendWatchlist(bot, chatId, listWatchTerms(chatId)); } catch {}
+});
+
+bot.onText(/^\/story(?:@\w+)?(?:\s+(\d+))?/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const position = parseInt(match?.[1] || '', 10);
+    if (isNaN(position)) {
+      await bot.sendMessage(chatId, 'Uso: /story <n> — n é o número da notícia no último digest.');
+      return;
+    }
+    const item = getDigestItem(chatId, position);
+    if (!item) {
+      await bot.sendMessage(chatId, 'Notícia não encontrada. Rode /trend primeiro e use o número exibido.');
+      return;
+    }
+    await sendStoryCoverage(bot, chatId, position, item);
+  } catch (err) {
+    log('story', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/summary(?:@\w+)?(?:\s+(\d+))?/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const position = parseInt(match?.[1] || '', 10);
+    if (isNaN(position)) {
+      await bot.sendMessage(chatId, 'Uso: /summary <n> — n é o número da notícia no último digest.');
+      return;
+    }
+    const item = getDigestItem(chatId, position);
+    if (!item) {
+      await bot.sendMessage(chatId, 'Notícia não encontrada. Rode /trend primeiro e use o número exibido.');
+      return;
+    }
+    const summary = item.summary || await getSummary(item);
+    await sendSummary(bot, chatId, position, item, summary, preferencesFor(chatId).language);
+  } catch (err) {
+    log('summary', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/why(?:@\w+)?(?:\s+(\d+))?/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const position = parseInt(match?.[1] || '', 10);
+    if (isNaN(position)) {
+      await bot.sendMessage(chatId, 'Uso: /why <n> — n é o número da notícia no último digest.');
+      return;
+    }
+    const item = getDigestItem(chatId, position);
+    if (!item) {
+      await bot.sendMessage(chatId, 'Notícia não encontrada. Rode /trend primeiro e use o número exibido.');
+      return;
+    }
+    await sendScoreExplanation(bot, chatId, position, item, countFeedback(chatId));
+  } catch (err) {
+    log('why', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/search(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  try {
+    const { positional, flags } = parseArgs(match?.[1]);
+    if (positional.length === 0) {
+      await bot.sendMessage(chatId, 'Uso: /search <termos> [--since 3d] [--source G1] [--page 2]\nEx: /search "banco central" juros --since 1w');
+      return;
+    }
+
+    const sinceMs = parseDuration(flags.since || SEARCH_DEFAULT_SINCE);
+    if (sinceMs === null) {
+      await bot.sendMessage(chatId, 'Período inválido. Use por exemplo --since 12h, 3d ou 1w.');
+      return;
+    }
+
+    const hits = searchArticles(positional, { sinceMs, source: flags.source });
+    const totalPages = Math.max(1, Math.ceil(hits.length / SEARCH_PAGE_SIZE));
+    const page = Math.min(Math.max(parseInt(flags.page || '1', 10) || 1, 1), totalPages);
+    const offset = (page - 1) * SEARCH_PAGE_SIZE;
+    const results = hits.slice(offset, offset + SEARCH_PAGE_SIZE).map((h) => h.item);
+
+    await sendSearchResults(bot, chatId, positional.join(' '), results, page, totalPages, hits.length, offset);
+  } catch (err) {
+    log('search', `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro na busca: ${err}`); } catch {}
+  }
+});
+
+bot.onText(/^\/unmute(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  const source = match?.[1]?.trim();
+  try {
+    if (!source) {
+      const muted = listMutedSources(chatId);
+      await bot.sendMessage(
+        chatId,
+        muted.length > 0 ? `Fontes silenciadas:\n${muted.map((m) => `- ${m}`).join('\n')}` : 'Nenhuma fonte silenciada.'
+      );
+      return;
+    }
+    const removed = unmuteSource(chatId, source);
+    await bot.sendMessage(chatId, removed ? `🔊 ${removed} reativada.` : 'Fonte não está silenciada.');
+  } catch (err) {
+    log('mute', `Erro: ${err}`);
+  }
+});
+
+// --- Lista de leitura (por usuário, não por chat) ---
+
+bot.onText(/^\/saved/, async (msg) => {
+  const chatId = msg.chat.id.toString();
+  if (!msg.from) return;
+  try { await sendSavedArticles(bot, chatId, listSavedArticles(msg.from.id.toString())); } catch {}
+});
+
+bot.onText(/^\/unsave(?:@\w+)?(?:\s+(\d+))?/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  if (!msg.from) return;
+  try {
+    const position = parseInt(match?.[1] || '', 10);
+    const removed = isNaN(position) ? null : removeSavedArticle(msg.from.id.toString(), position);
+    await bot.sendMessage(chatId, removed ? `Removido: ${removed.title}` : 'Uso: /unsave <n> (número mostrado em /saved)');
+  } catch (err) {
+    log('saved', `Erro: ${err}`);
+  }
+});
+
+bot.onText(/^\/export(?:@\w+)?(?:\s+(\w+))?/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  if (!msg.from) return;
+  try {
+    const format = (match?.[1] || 'md').toLowerCase();
+    if (!(EXPORT_FORMATS as string[]).includes(format)) {
+      await bot.sendMessage(chatId, `Formato inválido. Use: ${EXPORT_FORMATS.join(', ')}`);
+      return;
+    }
+    const userId = msg.from.id.toString();
+    const count = listSavedArticles(userId).length;
+    if (count === 0) {
+      await bot.sendMessage(chatId, 'Nenhum artigo salvo para exportar.');
+      return;
+    }
+    await sendSavedExport(bot, chatId, exportSavedArticles(userId, format as ExportFormat), count);
+  } catch (err) {
+    log('saved', `Erro ao exportar: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro ao exportar: ${err}`); } catch {}
+  }
+});
+
+// --- Gerenciamento de fontes (admin) ---
+
+function isAdmin(msg: TelegramBot.Message): boolean {
+  return !!msg.from && config.adminUserIds.includes(msg.from.id.toString());
+}
+
+bot.onText(/^\/addfeed(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  if (!isAdmin(msg)) {
+    try { await bot.sendMessage(chatId, 'Comando restrito a administradores.'); } catch {}
+    return;
+  }
+  try {
+    const { positional, flags } = parseArgs(match?.[1]);
+    const [type, rawUrl, rawCategory] = positional;
+    if (!type || !rawUrl || !rawCategory || !isFeedType(type)) {
+      await bot.sendMessage(chatId, `Uso: /addfeed <${FEED_TYPES.join('|')}> <url> <categoria> [--name "Nome"]`);
+      return;
+    }
+
+    const url = normalizeFeedUrl(type, rawUrl);
+    const source = {
+      name: flags.name || defaultFeedName(type, url),
+      url,
+      type,
+      category: rawCategory.toLowerCase(),
+    };
+
+    await bot.sendMessage(chatId, `🔍 Testando ${source.name}...`);
+    const invalid = await withTimeout(validateFeedSource(source), 30000, 'validateFeedSource');
+    if (invalid) {
+      await bot.sendMessage(chatId, `❌ Fonte rejeitada: ${invalid}`);
+      return;
+    }
+
+    const error = addFeed(config, source);
+    await bot.sendMessage(chatId, error ? `❌ ${error}` : `✅ ${source.name} adicionada em ${source.category}.`);
+    if (!error) {
+      log('feeds', `Fonte adicionada por ${msg.from!.id}: ${source.name} (${source.type} ${source.url})`);
+      refreshBotCommands();
+    }
+  } catch (err) {
+    log('feeds', `Erro: ${err}`);
+    try { await bot.sendMessage(chatId, `Erro ao adicionar fonte: ${err}`); } catch {}
+  }
+});
+
+bot.onText(/^\/(removefeed|disablefeed|enablefeed)(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+  const chatId = msg.chat.id.toString();
+  if (!isAdmin(msg)) {
+    try { await bot.sendMessage(chatId, 'Comando restrito a administradores.'); } catch {}
+    return;
+  }
+  try {
+    const command = match![1];
+    const target = match?.[2]?.trim();
+    const feed = target ? findFeed(config, target) : undefined;
+    if (!feed) {
+      await bot.sendMessage(chatId, `Uso: /${command} <n|nome> — veja a numeração em /sources`);
+      return;
+    }
+
+    if (command === 'removefeed') {
+      removeFeed(config, feed);
+      await bot.sendMessage(chatId, `🗑 ${feed.name} removida.`);
+    } else {
+      const enabled = command === 'enablefeed';
+      setFeedEnabled(config, feed, enabled);
+      await bot.sendMessage(chatId, enabled ? `▶️ ${feed.name} reativada.` : `⏸ ${feed.name} desativada.`);
+    }
+    log('feeds', `/${command} por ${msg.from!.id}: ${feed.name}`);
+    refreshBotCommands();
+  } catch (err) {
+    log('feeds', `Erro: ${err}`);
+  }
+});
+
 bot.onText(/\/help/, async (msg) => {
   const chatId = msg.chat.id.toString();
-  try { await sendHelp(bot, chatId); } catch {}
+  try { await sendHelp(bot, chatId, listProfiles().map((p) => p.name), categoryCommands()); } catch {}
 });
 
 bot.onText(/\/start/, async (msg) => {
@@ -246,6 +1099,63 @@ bot.onText(/\/start/, async (msg) => {
   } catch {}
 });
 
+// ============================================================
+// INLINE KEYBOARD (callback_query)
+// ============================================================
+
+bot.on('callback_query', async (query) => {
+  const message = query.message;
+  if (!query.data || !message) return;
+
+  const chatId = message.chat.id.toString();
+  const [action, digestId, arg] = query.data.split(':');
+  const answer = (text?: string) => bot.answerCallbackQuery(query.id, text ? { text } : {}).catch(() => {});
+
+  try {
+    const digest = getDigest(chatId, digestId);
+    if (!digest) {
+      await answer('Este digest expirou. Peça um novo.');
+      return;
+    }
+
+    const position = parseInt(arg, 10);
+    const item = digest.items[position - 1];
+
+    switch (action) {
+      case 'pg':
+        await showDigestPage(bot, chatId, message.message_id, digest, position);
+        await answer();
+        return;
+      case 'more':
+        if (!item) break;
+        await answer('Buscando parecidas...');
+        await sendSimilarArticles(bot, chatId, item, findSimilarArticles(item));
+        return;
+      case 'mute':
+        if (!item) break;
+        await answer(muteSource(chatId, item.source) ? `🔇 ${item.source} silenciada` : `${item.source} já estava silenciada`);
+        return;
+      case 'save':
+        if (!item) break;
+        await answer(saveArticle(query.from.id.toString(), item) ? '💾 Salvo!' : 'Já estava salvo');
+        return;
+      case 'up':
+      case 'down':
+        if (!item) break;
+        await answer(recordFeedback(chatId, item, action === 'up' ? 1 : -1)
+          ? (action === 'up' ? '👍 Anotado: mais notícias assim' : '👎 Anotado: menos notícias assim')
+          : 'Voto já registrado');
+        return;
+    }
+    await answer();
+  } catch (err) {
+    log('callback', `Erro (${query.data}): ${err}`);
+    await answer('Erro ao processar ação');
+  }
+});
+
+refreshBotCommands();
+
 log('init', 'News Aggregator iniciado!');
 log('init', `Feeds: ${config.feeds.length} fontes configuradas`);
 log('init', `PID: ${process.pid}`);
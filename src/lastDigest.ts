@@ -0,0 +1,79 @@
+import { NewsItem, Quote } from './types';
+import { Language } from './i18n';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const LAST_DIGEST_FILE = dataFilePath('.last-digests.json');
+const MAX_DIGESTS_PER_CHAT = 5;
+
+export type DigestKind = 'trending' | 'latest' | 'money';
+
+export interface LastDigest {
+  id: string;
+  kind: DigestKind;
+  lang: Language;
+  sentAt: number;
+  items: NewsItem[];
+  label?: string;            // Ex: categoria do /tech, exibida no cabeçalho
+  quotes?: Record<string, Quote>;  // Cotações no momento do envio (/money)
+}
+
+// chatId → digests mais recentes primeiro
+let cache: Record<string, LastDigest[]> | null = null;
+
+/**
+ * Datas viram string no JSON — restaura para Date ao ler do disco.
+ */
+function revive(digest: LastDigest): LastDigest {
+  return {
+    ...digest,
+    items: digest.items.map((item) => ({
+      ...item,
+      publishedAt: new Date(item.publishedAt),
+      related: item.related?.map((r) => ({ ...r, publishedAt: new Date(r.publishedAt) })),
+    })),
+  };
+}
+
+function load(): Record<string, LastDigest[]> {
+  if (!cache) {
+    const raw = readJsonFile<Record<string, LastDigest[]>>(LAST_DIGEST_FILE, {});
+    cache = {};
+    for (const [chatId, digests] of Object.entries(raw)) cache[chatId] = digests.map(revive);
+  }
+  return cache;
+}
+
+/**
+ * Guarda os últimos digests enviados a cada chat, para que comandos como
+ * /story <n> e os botões inline possam se referir aos itens depois do envio.
+ * Retorna o id usado nos callback_data dos botões.
+ */
+export function rememberDigest(
+  chatId: string,
+  kind: DigestKind,
+  items: NewsItem[],
+  lang: Language = 'pt',
+  extra: Pick<LastDigest, 'label' | 'quotes'> = {}
+): string {
+  const digests = load();
+  const id = Date.now().toString(36);
+  const list = [{ id, kind, lang, sentAt: Date.now(), items, ...extra }, ...(digests[chatId] || [])];
+  digests[chatId] = list.slice(0, MAX_DIGESTS_PER_CHAT);
+  writeJsonFile(LAST_DIGEST_FILE, digests);
+  return id;
+}
+
+export function getLastDigest(chatId: string): LastDigest | undefined {
+  return load()[chatId]?.[0];
+}
+
+export function getDigest(chatId: string, id: string): LastDigest | undefined {
+  return load()[chatId]?.find((d) => d.id === id);
+}
+
+/**
+ * Item pela posição exibida (1-based) no último digest do chat.
+ */
+export function getDigestItem(chatId: string, position: number): NewsItem | undefined {
+  return getLastDigest(chatId)?.items[position - 1];
+}
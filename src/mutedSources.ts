@@ -0,0 +1,48 @@
+import { NewsItem } from './types';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const MUTED_SOURCES_FILE = dataFilePath('.muted-sources.json');
+
+// chatId → nomes de fontes silenciadas
+let cache: Record<string, string[]> | null = null;
+
+function load(): Record<string, string[]> {
+  if (!cache) cache = readJsonFile<Record<string, string[]>>(MUTED_SOURCES_FILE, {});
+  return cache;
+}
+
+export function listMutedSources(chatId: string): string[] {
+  return load()[chatId] || [];
+}
+
+export function muteSource(chatId: string, source: string): boolean {
+  const data = load();
+  const list = data[chatId] || (data[chatId] = []);
+  if (list.includes(source)) return false;
+  list.push(source);
+  writeJsonFile(MUTED_SOURCES_FILE, data);
+  return true;
+}
+
+/**
+ * Remove pelo nome exato ou, se não houver, pelo primeiro que contenha o texto.
+ */
+export function unmuteSource(chatId: string, source: string): string | null {
+  const data = load();
+  const list = data[chatId] || [];
+  const needle = source.toLowerCase();
+  let index = list.findIndex((s) => s.toLowerCase() === needle);
+  if (index < 0) index = list.findIndex((s) => s.toLowerCase().includes(needle));
+  if (index < 0) return null;
+
+  const [removed] = list.splice(index, 1);
+  if (list.length === 0) delete data[chatId];
+  writeJsonFile(MUTED_SOURCES_FILE, data);
+  return removed;
+}
+
+export function filterMuted(chatId: string, items: NewsItem[]): NewsItem[] {
+  const muted = new Set(listMutedSources(chatId));
+  if (muted.size === 0) return items;
+  return items.filter((item) => !muted.has(item.source));
+}
@@ -1,50 +1,19 @@
-import axios from 'axios';
-import { NewsItem, ScoreBreakdown } from './types';
-
-const RATE_LIMIT_DELAY_MS = 200;
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// --- Tokenização simples para análise de keywords ---
-
-const STOP_WORDS = new Set([
-  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-  'should', 'may', 'might', 'shall', 'can', 'need', 'dare', 'ought',
-  'used', 'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by', 'from',
-  'as', 'into', 'through', 'during', 'before', 'after', 'above', 'below',
-  'between', 'out', 'off', 'over', 'under', 'again', 'further', 'then',
-  'once', 'and', 'but', 'or', 'nor', 'not', 'so', 'yet', 'both',
-  'either', 'neither', 'each', 'every', 'all', 'any', 'few', 'more',
-  'most', 'other', 'some', 'such', 'no', 'only', 'own', 'same', 'than',
-  'too', 'very', 'just', 'because', 'about', 'up', 'it', 'its', 'this',
-  'that', 'these', 'those', 'he', 'she', 'they', 'we', 'you', 'i', 'me',
-  'my', 'your', 'his', 'her', 'their', 'our', 'what', 'which', 'who',
-  'when', 'where', 'why', 'how', 'if', 'while', 'new', 'says', 'said',
-  // PT-BR stop words
-  'de', 'da', 'do', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas',
-  'um', 'uma', 'uns', 'umas', 'por', 'para', 'com', 'sem', 'sob',
-  'sobre', 'entre', 'que', 'se', 'mais', 'mas', 'como', 'seu', 'sua',
-  'seus', 'suas', 'ele', 'ela', 'eles', 'elas', 'isso', 'isto',
-  'aquilo', 'este', 'esta', 'esse', 'essa', 'já', 'ainda', 'também',
-  'foi', 'ser', 'ter', 'está', 'são', 'tem', 'vai', 'pode', 'diz',
-  'após', 'ano', 'dia', 'vez', 'até', 'não', 'há',
-]);
-
-function extractKeywords(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-záàâãéèêíïóôõöúçñ0-9\s]/gi, ' ')
-    .split(/\s+/)
-    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
-}
+import { NewsItem } from './types';
+import {
+  fetchSocialScores,
+  getCachedSocialScores,
+  rawSocialScore,
+  saveSocialCache,
+  SocialScores,
+} from './social';
+import { applyProfile, defaultProfile, scoreSignals } from './scoring';
+import { detectTrendingTerms, extractKeywords, extractTerms } from './topics';
 
 // --- 1. Cross-feed: detecta se o mesmo assunto aparece em múltiplas fontes ---
+// Cada fonte conta pela sua autoridade: um repost no Reddit pesa menos que o G1
 
-function computeCrossFeedScores(items: NewsItem[]): Map<number, number> {
-  const scores = new Map<number, number>();
+function computeCrossFeedCounts(items: NewsItem[]): number[] {
+  const counts: number[] = [];
 
   for (let i = 0; i < items.length; i++) {
     const kwA = new Set(extractKeywords(items[i].title));
@@ -61,191 +30,99 @@ function computeCrossFeedScores(items: NewsItem[]): Map<number, number> {
       const similarity = kwA.size > 0 ? overlap / kwA.size : 0;
 
       if (similarity >= 0.4) {
-        crossCount++;
+        crossCount += items[j].authority ?? 1;
         matchedSources.add(items[j].source);
       }
     }
 
-    // 0-1 sources = 0, 2 sources = 30, 3+ = 50+
-    scores.set(i, crossCount >= 3 ? 50 : crossCount >= 2 ? 40 : crossCount >= 1 ? 30 : 0);
+    counts.push(crossCount);
   }
 
-  return scores;
+  return counts;
 }
 
-// --- 2. Trending keywords: palavras que aparecem em muitas notícias diferentes ---
-
-function computeTrendingScores(items: NewsItem[]): Map<number, number> {
-  // Count keyword frequency across all items
-  const keywordFreq = new Map<string, number>();
-  const itemKeywords: string[][] = [];
-
-  for (const item of items) {
-    const kws = [...new Set(extractKeywords(item.title + ' ' + item.description))];
-    itemKeywords.push(kws);
-    for (const kw of kws) {
-      keywordFreq.set(kw, (keywordFreq.get(kw) || 0) + 1);
-    }
-  }
-
-  // Keywords that appear in 3+ different articles are "trending"
-  const trendingKeywords = new Set<string>();
-  for (const [kw, count] of keywordFreq) {
-    if (count >= 3) trendingKeywords.add(kw);
-  }
+// --- 2. Trending: termos em alta em relação ao baseline dos dias anteriores (topics.ts) ---
 
-  const scores = new Map<number, number>();
-  for (let i = 0; i < items.length; i++) {
-    const kws = itemKeywords[i];
-    const trendingHits = kws.filter((kw) => trendingKeywords.has(kw)).length;
-    // Score: each trending keyword hit = 5pts, max 30
-    scores.set(i, Math.min(trendingHits * 5, 30));
-  }
-
-  return scores;
-}
-
-// --- 3. Recency score: notícias mais recentes ganham mais pontos ---
-
-function computeRecencyScores(items: NewsItem[]): Map<number, number> {
-  const scores = new Map<number, number>();
-  const now = Date.now();
-
-  for (let i = 0; i < items.length; i++) {
-    const ageHours = (now - items[i].publishedAt.getTime()) / (1000 * 60 * 60);
-    // Max 20 pts for brand new, decays to 0 over 24h
-    const score = Math.max(0, 20 * (1 - ageHours / 24));
-    scores.set(i, Math.round(score));
-  }
-
-  return scores;
+function computeTrendingHits(items: NewsItem[]): number[] {
+  const trendingTerms = new Set(detectTrendingTerms(items).map((t) => t.term));
+  return items.map((item) => extractTerms(item.title).filter((term) => trendingTerms.has(term)).length);
 }
 
-// --- 4. Social score (HN + Reddit) — consulta assíncrona ---
-
-async function checkHackerNews(url: string): Promise<{ score: number; comments: number }> {
-  try {
-    const searchUrl = `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(url)}&restrictSearchableAttributes=url&hitsPerPage=5`;
-    const { data } = await axios.get(searchUrl, { timeout: 10000 });
+// --- 3. Recência e pontos de cada sinal: dependem do perfil (scoring.ts) ---
 
-    if (!data.hits || data.hits.length === 0) return { score: 0, comments: 0 };
+/**
+ * Sinais locais (rápidos, sem API) de cada item. Retorna cópias com
+ * item.signals preenchido; o social vem do engajamento nativo, se houver.
+ */
+export function computeSignals(items: NewsItem[]): NewsItem[] {
+  const crossCounts = computeCrossFeedCounts(items);
+  const trendingHits = computeTrendingHits(items);
 
-    let bestScore = 0;
-    let bestComments = 0;
-    for (const hit of data.hits) {
-      const score = hit.points || 0;
-      const comments = hit.num_comments || 0;
-      if (score > bestScore) {
-        bestScore = score;
-        bestComments = comments;
-      }
+  return items.map((item, i) => {
+    const social: SocialScores = {};
+    if (item.engagement) {
+      social[item.engagement.provider] = rawSocialScore(item.engagement.points, item.engagement.comments);
     }
-    return { score: bestScore, comments: bestComments };
-  } catch {
-    return { score: 0, comments: 0 };
-  }
+    return {
+      ...item,
+      signals: { crossSources: crossCounts[i], trendingHits: trendingHits[i], social, authority: item.authority ?? 1 },
+    };
+  });
 }
 
-async function checkReddit(url: string): Promise<{ score: number; comments: number }> {
-  try {
-    const searchUrl = `https://www.reddit.com/search.json?q=url:${encodeURIComponent(url)}&sort=top&limit=5`;
-    const { data } = await axios.get(searchUrl, {
-      timeout: 10000,
-      headers: { 'User-Agent': 'NewsAggregator/1.0' },
-    });
+// --- 4. Social score — provedores, cache e rate limit ficam em social.ts ---
 
-    if (!data?.data?.children || data.data.children.length === 0) return { score: 0, comments: 0 };
+// --- Pipeline principal ---
 
-    let bestScore = 0;
-    let bestComments = 0;
-    for (const child of data.data.children) {
-      const post = child.data;
-      const score = post.score || 0;
-      const comments = post.num_comments || 0;
-      if (score > bestScore) {
-        bestScore = score;
-        bestComments = comments;
-      }
-    }
-    return { score: bestScore, comments: bestComments };
-  } catch {
-    return { score: 0, comments: 0 };
-  }
-}
+// Máximo de URLs sem cache consultadas nas APIs sociais por rodada
+let socialLookupsPerRun = 20;
 
-async function getSocialScore(url: string): Promise<number> {
-  const [hn, reddit] = await Promise.all([
-    checkHackerNews(url),
-    checkReddit(url),
-  ]);
-  // Normalize: cap social at 50 pts
-  const raw = hn.score + hn.comments * 2 + reddit.score + reddit.comments * 2;
-  return Math.min(raw, 50);
+export function setSocialLookupsPerRun(count: number): void {
+  socialLookupsPerRun = count;
 }
 
-// --- Pipeline principal ---
-
+/**
+ * Calcula os sinais de cada item e pontua com o perfil padrão. Cada chat
+ * pode repontuar o resultado com o próprio perfil (applyProfile).
+ */
 export async function computeRelevance(items: NewsItem[]): Promise<NewsItem[]> {
   if (items.length === 0) return [];
 
   console.log(`[relevance] Calculando scores locais para ${items.length} itens...`);
 
-  // Scores locais (rápidos, sem API)
-  const crossFeed = computeCrossFeedScores(items);
-  const trending = computeTrendingScores(items);
-  const recency = computeRecencyScores(items);
-
-  // Pre-score sem social para pré-rankear
-  const preScored = items.map((item, i) => ({
-    item,
-    index: i,
-    localScore: (crossFeed.get(i) || 0) + (trending.get(i) || 0) + (recency.get(i) || 0),
-  }));
-
-  // Só consulta social para os top 20 candidatos (economiza tempo)
-  preScored.sort((a, b) => b.localScore - a.localScore);
-  const topCandidates = preScored.slice(0, 20);
-
-  console.log(`[relevance] Consultando APIs sociais para top ${topCandidates.length} candidatos...`);
-
-  // Consulta social em batches de 5
-  const socialScores = new Map<number, number>();
-  for (let i = 0; i < topCandidates.length; i += 5) {
-    const batch = topCandidates.slice(i, i + 5);
-    const results = await Promise.allSettled(
-      batch.map(async (c) => ({
-        index: c.index,
-        score: await getSocialScore(c.item.link),
-      }))
-    );
-    for (const r of results) {
-      if (r.status === 'fulfilled') {
-        socialScores.set(r.value.index, r.value.score);
-      }
+  const withSignals = computeSignals(items);
+  const profile = defaultProfile();
+
+  // Pré-rankeia sem o social das APIs para escolher quem consultar
+  const preScored = withSignals
+    .map((item) => ({ item, localScore: scoreSignals(item.signals!, item.publishedAt, profile).totalScore }))
+    .sort((a, b) => b.localScore - a.localScore);
+
+  // Cache vale para qualquer candidato; consultas novas só para os melhores
+  // (limite por rodada), na ordem do pré-ranking. Itens de fontes nativas
+  // (HN, Lobsters, Mastodon, Bluesky) já trazem o engajamento.
+  const toLookup: NewsItem[] = [];
+  let cacheHits = 0;
+  for (const { item } of preScored) {
+    if (item.engagement) continue;
+    const cached = getCachedSocialScores(item.link);
+    if (cached) {
+      item.signals!.social = cached;
+      cacheHits++;
+    } else if (toLookup.length < socialLookupsPerRun) {
+      toLookup.push(item);
     }
-    if (i + 5 < topCandidates.length) await delay(RATE_LIMIT_DELAY_MS * 2);
   }
 
-  // Monta score final
-  const enriched: NewsItem[] = items.map((item, i) => {
-    const cf = crossFeed.get(i) || 0;
-    const tr = trending.get(i) || 0;
-    const rc = recency.get(i) || 0;
-    const sc = socialScores.get(i) || 0;
-    const total = cf + tr + rc + sc;
+  console.log(`[relevance] Social: ${items.filter((i) => i.engagement).length} nativos, ${cacheHits} do cache, ${toLookup.length} consultas novas`);
 
-    return {
-      ...item,
-      relevanceScore: total,
-      scoreBreakdown: {
-        crossFeedScore: cf,
-        trendingScore: tr,
-        recencyScore: rc,
-        socialScore: sc,
-        totalScore: total,
-      },
-    };
-  });
+  // O rate limit de cada provedor controla o ritmo das consultas
+  await Promise.all(toLookup.map(async (item) => {
+    item.signals!.social = await fetchSocialScores(item.link);
+  }));
+  if (toLookup.length > 0) saveSocialCache();
+
+  const enriched = applyProfile(withSignals, profile);
 
   console.log(`[relevance] Scores calculados. Top 5 scores: ${
     enriched
@@ -0,0 +1,153 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import { NewsItem, Quote } from './types';
+
+/**
+ * Fonte de cotações. getQuote() lança exceção se o símbolo não existir ou a
+ * consulta falhar. Símbolos no formato exibido ao usuário: "PETR4", "AAPL",
+ * "^BVSP" (índices), "USDBRL=X" (câmbio), "BTC-USD".
+ */
+export interface QuoteProvider {
+  name: string;
+  getQuote(symbol: string): Promise<Quote>;
+}
+
+// Cabeçalho do /money
+export const MARKET_SNAPSHOT: { symbol: string; label: string }[] = [
+  { symbol: '^BVSP', label: 'Ibovespa' },
+  { symbol: '^GSPC', label: 'S&P 500' },
+  { symbol: 'USDBRL=X', label: 'USD/BRL' },
+  { symbol: 'BTC-USD', label: 'BTC' },
+];
+
+const ALIASES: Record<string, string> = {
+  IBOV: '^BVSP',
+  IBOVESPA: '^BVSP',
+  SP500: '^GSPC',
+  SPX: '^GSPC',
+  DOLAR: 'USDBRL=X',
+  USDBRL: 'USDBRL=X',
+  BTC: 'BTC-USD',
+  BITCOIN: 'BTC-USD',
+};
+
+// Ação/FII/unit da B3: 4 letras + 3, 4, 5, 6 ou 11
+const B3_TICKER = /^[A-Z]{4}(?:3|4|5|6|11)$/;
+
+/**
+ * Entrada do usuário → símbolo: tira "$", aceita apelidos (ibov, dolar, btc).
+ */
+export function normalizeSymbol(input: string): string {
+  const symbol = input.trim().toUpperCase().replace(/^\$/, '');
+  return ALIASES[symbol] || symbol;
+}
+
+/**
+ * Tickers citados no título: "PETR4", "VALE3" (B3) e "$AAPL" (EUA).
+ */
+export function detectTickers(title: string): string[] {
+  const found = new Set<string>();
+  for (const match of title.matchAll(/\b[A-Z]{4}(?:3|4|5|6|11)\b/g)) found.add(match[0]);
+  for (const match of title.matchAll(/\$([A-Z]{1,5})\b/g)) found.add(match[1]);
+  return [...found];
+}
+
+/**
+ * Cópias dos itens com os tickers citados no título (itens sem ticker passam inalterados).
+ */
+export function tagTickers(items: NewsItem[]): NewsItem[] {
+  return items.map((item) => {
+    const tickers = detectTickers(item.title);
+    return tickers.length > 0 ? { ...item, tickers } : item;
+  });
+}
+
+// --- Provedores ---
+
+/**
+ * Yahoo Finance (endpoint de gráfico, público). Tickers da B3 ganham ".SA".
+ */
+const yahooQuoteProvider: QuoteProvider = {
+  name: 'yahoo',
+  async getQuote(symbol) {
+    const yahooSymbol = B3_TICKER.test(symbol) ? `${symbol}.SA` : symbol;
+    const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(yahooSymbol)}?range=1d&interval=1d`;
+    const { data } = await axios.get(url, {
+      timeout: 10000,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; NewsAggregator/1.0)' },
+    });
+
+    const meta = data?.chart?.result?.[0]?.meta;
+    if (!meta || typeof meta.regularMarketPrice !== 'number') throw new Error(`Símbolo não encontrado: ${symbol}`);
+
+    const previousClose = meta.chartPreviousClose ?? meta.previousClose ?? meta.regularMarketPrice;
+    return {
+      symbol,
+      name: meta.shortName || meta.longName || symbol,
+      price: meta.regularMarketPrice,
+      changePercent: previousClose ? ((meta.regularMarketPrice - previousClose) / previousClose) * 100 : 0,
+      currency: meta.currency || '',
+    };
+  },
+};
+
+/**
+ * Cotações fixas de um JSON ({ "PETR4": { name, price, changePercent, currency } }),
+ * para testar sem rede. O arquivo é relido a cada consulta.
+ */
+export function createFixtureQuoteProvider(filePath: string): QuoteProvider {
+  return {
+    name: 'fixture',
+    async getQuote(symbol) {
+      const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, Omit<Quote, 'symbol'>>;
+      const entry = fixture[symbol];
+      if (!entry) throw new Error(`Símbolo não encontrado: ${symbol}`);
+      return { symbol, ...entry };
+    },
+  };
+}
+
+// --- Cache curto: o mesmo /money busca snapshot + tickers de várias notícias ---
+
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<string, { quote: Quote; fetchedAt: number }>();
+
+let provider: QuoteProvider = yahooQuoteProvider;
+
+export function setQuoteProvider(next: QuoteProvider): void {
+  provider = next;
+  cache.clear();
+}
+
+export async function getQuote(symbol: string): Promise<Quote> {
+  const cached = cache.get(symbol);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.quote;
+
+  const quote = await provider.getQuote(symbol);
+  cache.set(symbol, { quote, fetchedAt: Date.now() });
+  return quote;
+}
+
+/**
+ * Busca vários símbolos em paralelo. Nunca rejeita: os que falharam
+ * ficam de fora do resultado.
+ */
+export async function getQuotes(symbols: string[]): Promise<Record<string, Quote>> {
+  const unique = [...new Set(symbols)];
+  const results = await Promise.allSettled(unique.map((symbol) => getQuote(symbol)));
+
+  const quotes: Record<string, Quote> = {};
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') quotes[unique[i]] = r.value;
+    else console.error(`[quotes] Erro ao buscar ${unique[i]} (${provider.name}): ${r.reason}`);
+  });
+  return quotes;
+}
+
+/**
+ * Snapshot do mercado + tickers citados nas notícias, numa rodada só.
+ */
+export function getMoneyQuotes(items: NewsItem[]): Promise<Record<string, Quote>> {
+  const tickers = items.flatMap((item) => item.tickers || []);
+  return getQuotes([...MARKET_SNAPSHOT.map((s) => s.symbol), ...tickers]);
+}
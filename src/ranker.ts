@@ -1,48 +1,15 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { NewsItem } from './types';
 import { deduplicateBySimilarity } from './dedup';
+import { filterUnsent } from './sentHistory';
 
-// Usa /tmp no servidor (Railway), ou pasta do projeto local
-const SENT_CACHE_FILE = process.env.RAILWAY_ENVIRONMENT
-  ? '/tmp/.sent-cache.json'
-  : path.join(__dirname, '..', '.sent-cache.json');
-
-function loadSentCache(): Set<string> {
-  try {
-    if (fs.existsSync(SENT_CACHE_FILE)) {
-      const raw = fs.readFileSync(SENT_CACHE_FILE, 'utf-8');
-      const data = JSON.parse(raw) as { urls: string[]; timestamp: number };
-
-      if (Date.now() - data.timestamp > 48 * 60 * 60 * 1000) {
-        return new Set();
-      }
-      return new Set(data.urls);
-    }
-  } catch {
-    // ignore
-  }
-  return new Set();
-}
-
-function saveSentCache(urls: Set<string>): void {
-  try {
-    const data = { urls: Array.from(urls), timestamp: Date.now() };
-    fs.writeFileSync(SENT_CACHE_FILE, JSON.stringify(data), 'utf-8');
-  } catch {
-    // ignore
-  }
-}
-
-function normalizeUrl(url: string): string {
-  return url.replace(/\/+$/, '').toLowerCase();
-}
+const DEFAULT_MAX_PER_SOURCE = 3;
 
 /**
  * Diversified ranking: picks top items while ensuring no single source
- * dominates the results. Max 3 items per source.
+ * dominates the results. Max per source comes from feeds.json
+ * (maxPerDigest), default 3.
  */
-function diversifiedPick(sorted: NewsItem[], maxItems: number, maxPerSource: number = 3): NewsItem[] {
+function diversifiedPick(sorted: NewsItem[], maxItems: number, sourceCaps: Map<string, number>): NewsItem[] {
   const result: NewsItem[] = [];
   const sourceCount = new Map<string, number>();
 
@@ -50,7 +17,7 @@ function diversifiedPick(sorted: NewsItem[], maxItems: number, maxPerSource: num
     if (result.length >= maxItems) break;
 
     const count = sourceCount.get(item.source) || 0;
-    if (count >= maxPerSource) continue;
+    if (count >= (sourceCaps.get(item.source) ?? DEFAULT_MAX_PER_SOURCE)) continue;
 
     result.push(item);
     sourceCount.set(item.source, count + 1);
@@ -62,15 +29,13 @@ function diversifiedPick(sorted: NewsItem[], maxItems: number, maxPerSource: num
 export function rankNews(
   items: NewsItem[],
   maxItems: number,
-  maxAgeHours: number
+  maxAgeHours: number,
+  chatId: string,
+  sourceCaps: Map<string, number> = new Map()
 ): NewsItem[] {
   const now = Date.now();
-  const sentCache = loadSentCache();
-
-  const filtered = items.filter((item) => {
-    const normalized = normalizeUrl(item.link);
-    if (sentCache.has(normalized)) return false;
 
+  const filtered = filterUnsent(chatId, items).filter((item) => {
     const ageHours = (now - item.publishedAt.getTime()) / (1000 * 60 * 60);
     if (ageHours > maxAgeHours) return false;
 
@@ -85,29 +50,36 @@ export function rankNews(
   // Sort by relevance score descending
   const sorted = unique.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
-  // Diversified pick — no more than 3 items from same source
-  const topItems = diversifiedPick(sorted, maxItems);
-
-  // Mark as sent
-  for (const item of topItems) {
-    sentCache.add(normalizeUrl(item.link));
-  }
-  saveSentCache(sentCache);
-
-  return topItems;
+  // Diversified pick — respects each source's cap
+  // Marked as sent by sendDigest, once the message is delivered
+  return diversifiedPick(sorted, maxItems, sourceCaps);
 }
 
-export function getTopOfDay(
+/**
+ * Melhores histórias publicadas nas últimas periodHours: agrupa títulos
+ * similares (os demais ficam em `related`) e diversifica por fonte.
+ */
+export function getTopOfPeriod(
   items: NewsItem[],
-  count: number = 5
+  count: number,
+  periodHours: number,
+  sourceCaps: Map<string, number> = new Map()
 ): NewsItem[] {
   const now = Date.now();
-  const last24h = items.filter((item) => {
+  const inPeriod = items.filter((item) => {
     const ageHours = (now - item.publishedAt.getTime()) / (1000 * 60 * 60);
-    return ageHours <= 24 && item.link;
+    return ageHours <= periodHours && item.link;
   });
 
-  const unique = deduplicateBySimilarity(last24h);
+  const unique = deduplicateBySimilarity(inPeriod);
   const sorted = unique.sort((a, b) => b.relevanceScore - a.relevanceScore);
-  return diversifiedPick(sorted, count);
+  return diversifiedPick(sorted, count, sourceCaps);
+}
+
+export function getTopOfDay(
+  items: NewsItem[],
+  count: number = 5,
+  sourceCaps: Map<string, number> = new Map()
+): NewsItem[] {
+  return getTopOfPeriod(items, count, 24, sourceCaps);
 }
@@ -0,0 +1,122 @@
+import { NewsItem } from './types';
+import { normalizeUrl } from './sentHistory';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+// "Rankeado", para os resumos, é o topo de cada categoria no score global
+// do computeRelevance (perfil padrão, sem personalização nem filtros de
+// chat). Não é o que foi enviado a cada chat: o /daily e o /weekly
+// reaplicam categorias e fontes silenciadas do chat sobre esse topo.
+const RUN_HISTORY_FILE = dataFilePath('.run-history.json');
+// Um dia a mais que o /weekly, para a janela nunca ficar incompleta
+const RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+// Só o topo de cada categoria interessa para os resumos (por categoria,
+// para os resumos filtrados não ficarem vazios)
+const MAX_ITEMS_PER_CATEGORY = 20;
+// /trend, /money e /cat manuais também rankeiam; dentro deste intervalo
+// são somados à mesma rodada, para não inflar as contagens dos resumos
+const MIN_RUN_INTERVAL_MS = 15 * 60 * 1000;
+
+interface RankedEntry {
+  title: string;
+  link: string;
+  source: string;
+  category?: string;
+  publishedAt: number;
+  score: number;
+}
+
+interface RankingRun {
+  at: number;
+  items: RankedEntry[];
+}
+
+let cache: RankingRun[] | null = null;
+
+function load(): RankingRun[] {
+  if (!cache) cache = readJsonFile<RankingRun[]>(RUN_HISTORY_FILE, []);
+  return cache;
+}
+
+/**
+ * Um por URL (o maior score), limitado aos MAX_ITEMS_PER_CATEGORY melhores de cada categoria.
+ */
+function topPerCategory(entries: RankedEntry[]): RankedEntry[] {
+  const best = new Map<string, RankedEntry>();
+  for (const entry of entries) {
+    const key = normalizeUrl(entry.link);
+    const current = best.get(key);
+    if (!current || entry.score > current.score) best.set(key, entry);
+  }
+
+  const byCategory = new Map<string, RankedEntry[]>();
+  for (const entry of best.values()) {
+    const key = entry.category || '';
+    const group = byCategory.get(key);
+    if (group) group.push(entry);
+    else byCategory.set(key, [entry]);
+  }
+  return [...byCategory.values()].flatMap((group) =>
+    group.sort((a, b) => b.score - a.score).slice(0, MAX_ITEMS_PER_CATEGORY)
+  );
+}
+
+/**
+ * Guarda os itens mais bem pontuados de cada categoria numa rodada do
+ * computeRelevance. Se a última rodada gravada é recente, os itens são
+ * somados a ela em vez de abrir outra.
+ */
+export function recordRankingRun(items: NewsItem[]): void {
+  const entries: RankedEntry[] = items.map((item) => ({
+    title: item.title,
+    link: item.link,
+    source: item.source,
+    category: item.category,
+    publishedAt: item.publishedAt.getTime(),
+    score: item.relevanceScore,
+  }));
+  if (entries.length === 0) return;
+
+  const now = Date.now();
+  const runs = load().filter((run) => run.at >= now - RETENTION_MS);
+  const last = runs[runs.length - 1];
+  if (last && now - last.at < MIN_RUN_INTERVAL_MS) {
+    last.items = topPerCategory([...last.items, ...entries]);
+  } else {
+    runs.push({ at: now, items: topPerCategory(entries) });
+  }
+  cache = runs;
+  writeJsonFile(RUN_HISTORY_FILE, runs);
+}
+
+export interface RankedPeriod {
+  runs: number;
+  items: NewsItem[];         // Um por URL, com o maior score que teve no período
+}
+
+/**
+ * Tudo que foi rankeado desde sinceMs. Cada URL aparece uma vez, com o
+ * melhor score entre as rodadas.
+ */
+export function getRankedSince(sinceMs: number): RankedPeriod {
+  const runs = load().filter((run) => run.at >= sinceMs);
+  const best = new Map<string, RankedEntry>();
+  for (const run of runs) {
+    for (const entry of run.items) {
+      const key = normalizeUrl(entry.link);
+      const current = best.get(key);
+      if (!current || entry.score > current.score) best.set(key, entry);
+    }
+  }
+
+  const items = [...best.values()].map((entry) => ({
+    title: entry.title,
+    link: entry.link,
+    source: entry.source,
+    category: entry.category,
+    publishedAt: new Date(entry.publishedAt),
+    description: '',
+    relevanceScore: entry.score,
+    scoreBreakdown: { crossFeedScore: 0, recencyScore: 0, trendingScore: 0, socialScore: 0, totalScore: entry.score },
+  }));
+  return { runs: runs.length, items };
+}
@@ -0,0 +1,129 @@
+import { NewsItem } from './types';
+import { normalizeUrl } from './sentHistory';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SAVED_ARTICLES_FILE = dataFilePath('.saved-articles.json');
+
+export interface SavedArticle {
+  title: string;
+  link: string;
+  source: string;
+  publishedAt: number;
+  savedAt: number;
+}
+
+// userId → artigos salvos (mais antigos primeiro)
+let cache: Record<string, SavedArticle[]> | null = null;
+
+function load(): Record<string, SavedArticle[]> {
+  if (!cache) cache = readJsonFile<Record<string, SavedArticle[]>>(SAVED_ARTICLES_FILE, {});
+  return cache;
+}
+
+/**
+ * Salva um artigo na lista do usuário. Retorna false se já estava salvo.
+ */
+export function saveArticle(userId: string, item: NewsItem): boolean {
+  const data = load();
+  const list = data[userId] || (data[userId] = []);
+  const key = normalizeUrl(item.link);
+  if (list.some((a) => normalizeUrl(a.link) === key)) return false;
+
+  list.push({
+    title: item.title,
+    link: item.link,
+    source: item.source,
+    publishedAt: item.publishedAt.getTime(),
+    savedAt: Date.now(),
+  });
+  writeJsonFile(SAVED_ARTICLES_FILE, data);
+  return true;
+}
+
+export function listSavedArticles(userId: string): SavedArticle[] {
+  return load()[userId] || [];
+}
+
+/**
+ * Remove pela posição (1-based) mostrada em /saved.
+ */
+export function removeSavedArticle(userId: string, position: number): SavedArticle | null {
+  const data = load();
+  const list = data[userId];
+  if (!list || position < 1 || position > list.length) return null;
+
+  const [removed] = list.splice(position - 1, 1);
+  if (list.length === 0) delete data[userId];
+  writeJsonFile(SAVED_ARTICLES_FILE, data);
+  return removed;
+}
+
+// --- Exportação ---
+
+export type ExportFormat = 'md' | 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'csv', 'json'];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toMarkdown(articles: SavedArticle[]): string {
+  const lines = ['# Artigos salvos', ''];
+  for (const a of articles) {
+    lines.push(`- [${a.title.replace(/([\[\]])/g, '\\$1')}](${a.link}) — ${a.source}, ${new Date(a.publishedAt).toISOString().slice(0, 10)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toCsv(articles: SavedArticle[]): string {
+  const header = 'title,link,source,published_at,saved_at';
+  const rows = articles.map((a) => [
+    csvField(a.title),
+    csvField(a.link),
+    csvField(a.source),
+    new Date(a.publishedAt).toISOString(),
+    new Date(a.savedAt).toISOString(),
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Mesma estrutura de um OPML (head + outlines), só que em JSON.
+ */
+function toOpmlJson(articles: SavedArticle[]): string {
+  return JSON.stringify({
+    opml: {
+      version: '2.0',
+      head: { title: 'Artigos salvos', dateCreated: new Date().toUTCString() },
+      body: {
+        outline: articles.map((a) => ({
+          text: a.title,
+          type: 'link',
+          url: a.link,
+          source: a.source,
+          created: new Date(a.savedAt).toUTCString(),
+        })),
+      },
+    },
+  }, null, 2);
+}
+
+export function exportSavedArticles(userId: string, format: ExportFormat): ExportFile {
+  const articles = listSavedArticles(userId);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === 'csv') {
+    return { filename: `salvos-${stamp}.csv`, contentType: 'text/csv', content: Buffer.from(toCsv(articles), 'utf-8') };
+  }
+  if (format === 'json') {
+    return { filename: `salvos-${stamp}.json`, contentType: 'application/json', content: Buffer.from(toOpmlJson(articles), 'utf-8') };
+  }
+  return { filename: `salvos-${stamp}.md`, contentType: 'text/markdown', content: Buffer.from(toMarkdown(articles), 'utf-8') };
+}
@@ -0,0 +1,103 @@
+import cron from 'node-cron';
+import { QuietHours } from './types';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMinutes?: number;  // Executa a cada N minutos (setInterval)
+  cron?: string;             // Ou segundo uma expressão cron
+  run: () => Promise<void>;
+}
+
+export interface SchedulerOptions {
+  quietHours: QuietHours | null;
+  timezone: string;
+}
+
+const runningJobs = new Set<string>();
+const intervals: NodeJS.Timeout[] = [];
+const cronTasks: cron.ScheduledTask[] = [];
+
+function log(msg: string): void {
+  console.log(`[scheduler] ${new Date().toISOString()} - ${msg}`);
+}
+
+function hourIn(date: Date, timezone: string): number {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    hour12: false,
+    timeZone: timezone,
+  }).format(date);
+  // Alguns runtimes formatam meia-noite como "24"
+  return parseInt(formatted, 10) % 24;
+}
+
+/**
+ * Verifica se a data cai dentro do horário silencioso.
+ * Suporta intervalos que cruzam a meia-noite (ex: 23-7).
+ */
+export function isQuietTime(date: Date, quietHours: QuietHours | null, timezone: string): boolean {
+  if (!quietHours) return false;
+  const hour = hourIn(date, timezone);
+  const { start, end } = quietHours;
+  if (start < end) return hour >= start && hour < end;
+  return hour >= start || hour < end;
+}
+
+/**
+ * Duração do horário silencioso em horas (0 se não houver).
+ */
+export function quietHoursLength(quietHours: QuietHours | null): number {
+  if (!quietHours) return 0;
+  return (quietHours.end - quietHours.start + 24) % 24;
+}
+
+/**
+ * Executa o job com proteção contra sobreposição: se a execução anterior
+ * ainda não terminou (ex: computeRelevance lento), a nova é descartada.
+ */
+async function runGuarded(job: ScheduledJob, opts: SchedulerOptions): Promise<void> {
+  if (runningJobs.has(job.name)) {
+    log(`${job.name}: execução anterior ainda em andamento, pulando`);
+    return;
+  }
+  if (isQuietTime(new Date(), opts.quietHours, opts.timezone)) {
+    log(`${job.name}: horário silencioso, pulando`);
+    return;
+  }
+
+  runningJobs.add(job.name);
+  const started = Date.now();
+  try {
+    await job.run();
+    log(`${job.name}: concluído em ${Math.round((Date.now() - started) / 1000)}s`);
+  } catch (err) {
+    log(`${job.name}: erro: ${err}`);
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+export function startScheduler(jobs: ScheduledJob[], opts: SchedulerOptions): void {
+  for (const job of jobs) {
+    if (job.cron) {
+      if (!cron.validate(job.cron)) {
+        log(`${job.name}: expressão cron inválida "${job.cron}", ignorando`);
+        continue;
+      }
+      cronTasks.push(
+        cron.schedule(job.cron, () => { runGuarded(job, opts); }, { timezone: opts.timezone })
+      );
+      log(`${job.name}: agendado via cron "${job.cron}" (${opts.timezone})`);
+    } else if (job.intervalMinutes && job.intervalMinutes > 0) {
+      intervals.push(setInterval(() => { runGuarded(job, opts); }, job.intervalMinutes * 60 * 1000));
+      log(`${job.name}: agendado a cada ${job.intervalMinutes}min`);
+    }
+  }
+}
+
+export function stopScheduler(): void {
+  for (const timer of intervals) clearInterval(timer);
+  for (const task of cronTasks) task.stop();
+  intervals.length = 0;
+  cronTasks.length = 0;
+}
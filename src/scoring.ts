@@ -0,0 +1,94 @@
+import { NewsItem, RankingProfile, RankingSignals, ScoreBreakdown } from './types';
+
+// Conversão de sinal bruto em pontos (antes de teto e peso do perfil):
+// 1 outra fonte = 30, 2 = 40, 3+ = 50 (fontes contam pela autoridade); 5 por
+// keyword em alta. A autoridade do próprio item multiplica o total.
+const CROSS_FEED_BASE = 20;
+const CROSS_FEED_PER_SOURCE = 10;
+const TRENDING_PER_HIT = 5;
+
+/**
+ * Perfil padrão, usado quando não há ranking.json. Mesmos tetos do ranking
+ * original; a recência decai por meia-vida em vez de linearmente em 24h.
+ */
+export const BASE_PROFILE: RankingProfile = {
+  name: 'padrao',
+  description: 'Equilíbrio entre repercussão, novidade e redes sociais',
+  weights: { crossFeed: 1, trending: 1, recency: 1, social: 1 },
+  caps: { crossFeed: 50, trending: 30, recency: 20, social: 50 },
+  recencyHalfLifeHours: 8,
+};
+
+let profiles = new Map<string, RankingProfile>([[BASE_PROFILE.name, BASE_PROFILE]]);
+let defaultProfileName = BASE_PROFILE.name;
+
+/**
+ * Substitui os perfis disponíveis. Se o padrão informado não existir,
+ * o primeiro da lista vira o padrão.
+ */
+export function setRankingProfiles(list: RankingProfile[], defaultName: string): void {
+  if (list.length === 0) return;
+  profiles = new Map(list.map((p) => [p.name, p]));
+  defaultProfileName = profiles.has(defaultName) ? defaultName : list[0].name;
+}
+
+export function listProfiles(): RankingProfile[] {
+  return Array.from(profiles.values());
+}
+
+export function defaultProfile(): RankingProfile {
+  return profiles.get(defaultProfileName)!;
+}
+
+/**
+ * Perfil pelo nome (sem diferenciar maiúsculas). Sem nome, o padrão.
+ */
+export function getProfile(name?: string): RankingProfile | undefined {
+  if (!name) return defaultProfile();
+  return profiles.get(name) || listProfiles().find((p) => p.name.toLowerCase() === name.toLowerCase());
+}
+
+function points(raw: number, cap: number, weight: number): number {
+  return Math.round(Math.min(raw, cap) * weight);
+}
+
+export function scoreSignals(
+  signals: RankingSignals,
+  publishedAt: Date,
+  profile: RankingProfile,
+  now: number = Date.now()
+): ScoreBreakdown {
+  const { weights, caps } = profile;
+  const ageHours = Math.max(0, (now - publishedAt.getTime()) / (1000 * 60 * 60));
+
+  const crossRaw = signals.crossSources > 0 ? CROSS_FEED_BASE + signals.crossSources * CROSS_FEED_PER_SOURCE : 0;
+  const recencyRaw = caps.recency * Math.pow(0.5, ageHours / profile.recencyHalfLifeHours);
+  const socialRaw = Object.values(signals.social).reduce((sum, v) => sum + (v || 0), 0);
+
+  const breakdown: ScoreBreakdown = {
+    crossFeedScore: points(crossRaw, caps.crossFeed, weights.crossFeed),
+    trendingScore: points(signals.trendingHits * TRENDING_PER_HIT, caps.trending, weights.trending),
+    recencyScore: points(recencyRaw, caps.recency, weights.recency),
+    socialScore: points(socialRaw, caps.social, weights.social),
+    totalScore: 0,
+  };
+  const sum = breakdown.crossFeedScore + breakdown.trendingScore + breakdown.recencyScore + breakdown.socialScore;
+  breakdown.totalScore = Math.round(sum * signals.authority);
+  if (breakdown.socialScore > 0) breakdown.social = signals.social;
+  if (signals.authority !== 1) breakdown.authority = signals.authority;
+  return breakdown;
+}
+
+/**
+ * Pontua os itens com o perfil. Retorna cópias — os mesmos itens são
+ * compartilhados entre chats com perfis diferentes. Itens sem sinais
+ * (ex: vindos do arquivo de artigos) passam inalterados.
+ */
+export function applyProfile(items: NewsItem[], profile: RankingProfile): NewsItem[] {
+  const now = Date.now();
+  return items.map((item) => {
+    if (!item.signals) return item;
+    const scoreBreakdown = scoreSignals(item.signals, item.publishedAt, profile, now);
+    return { ...item, relevanceScore: scoreBreakdown.totalScore, scoreBreakdown };
+  });
+}
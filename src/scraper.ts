@@ -0,0 +1,157 @@
+import * as cheerio from 'cheerio';
+import { ScrapeConfig } from './types';
+
+export interface ScrapedEntry {
+  title: string;
+  link: string;
+  publishedAt: Date | null;   // null quando a página não informa a data
+  description: string;
+}
+
+// Comportamento antigo (sem "scrape" no feeds.json): todo link com texto longo
+const LEGACY_MIN_TITLE_LENGTH = 20;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, fev: 1, mar: 2, apr: 3, abr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, ago: 7, sep: 8, set: 8, oct: 9, out: 9, nov: 10, dec: 11, dez: 11,
+};
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMM: '([A-Za-zçÇ]{3,})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+};
+
+/**
+ * Interpreta uma data no formato informado, ex: "DD/MM/YYYY HH:mm" ou
+ * "DD MMM YYYY" (meses abreviados em pt ou en). O resto do formato é
+ * tratado como texto literal. Horário local do servidor.
+ */
+export function parseDateWithFormat(value: string, format: string): Date | null {
+  const order: string[] = [];
+  const pattern = format
+    .split(/(YYYY|YY|MMM|MM|DD|HH|mm|ss)/)
+    .map((part) => {
+      if (FORMAT_TOKENS[part]) {
+        order.push(part);
+        return FORMAT_TOKENS[part];
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    })
+    .join('');
+
+  const match = value.trim().match(new RegExp(pattern, 'i'));
+  if (!match) return null;
+
+  const parts: Record<string, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  for (let i = 0; i < order.length; i++) {
+    const token = order[i];
+    const raw = match[i + 1];
+    if (token === 'MMM') {
+      const month = MONTHS[raw.slice(0, 3).toLowerCase()];
+      if (month === undefined) return null;
+      parts.MM = month + 1;
+    } else if (token === 'YY') {
+      parts.YYYY = 2000 + parseInt(raw, 10);
+    } else {
+      parts[token] = parseInt(raw, 10);
+    }
+  }
+
+  const date = new Date(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseScrapedDate(raw: string, format?: string): Date | null {
+  if (!raw) return null;
+  if (format) return parseDateWithFormat(raw, format);
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toRegexes(patterns: string[] | undefined): RegExp[] {
+  return (patterns || []).map((p) => new RegExp(p, 'i'));
+}
+
+/**
+ * Filtro de URLs: precisa casar com algum "include" (quando há) e com
+ * nenhum "exclude".
+ */
+function urlFilter(config: ScrapeConfig | undefined): (url: string) => boolean {
+  const include = toRegexes(config?.include);
+  const exclude = toRegexes(config?.exclude);
+  return (url) =>
+    (include.length === 0 || include.some((re) => re.test(url))) &&
+    !exclude.some((re) => re.test(url));
+}
+
+function absoluteUrl(href: string, baseUrl: string): string | null {
+  if (!href || href.startsWith('#')) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extrai artigos de uma página HTML. Com "scrape.item", cada container vira
+ * um artigo (título, link, data e resumo via seletores relativos a ele);
+ * sem, mantém a heurística antiga de links com texto longo.
+ */
+export function scrapeEntries(html: string, pageUrl: string, config?: ScrapeConfig): ScrapedEntry[] {
+  const $ = cheerio.load(html);
+  const accept = urlFilter(config);
+  const seen = new Set<string>();
+  const entries: ScrapedEntry[] = [];
+
+  const push = (entry: ScrapedEntry) => {
+    if (!accept(entry.link) || seen.has(entry.link)) return;
+    seen.add(entry.link);
+    entries.push(entry);
+  };
+
+  if (!config?.item) {
+    $('a[href]').each((_, el) => {
+      const $el = $(el);
+      const text = $el.text().trim();
+      const link = absoluteUrl($el.attr('href') || '', pageUrl);
+      if (!link || text.length < LEGACY_MIN_TITLE_LENGTH) return;
+      push({ title: text.slice(0, 200), link, publishedAt: null, description: '' });
+    });
+    return entries;
+  }
+
+  $(config.item).each((_, el) => {
+    const $item = $(el);
+    const $link = config.link
+      ? $item.find(config.link).first()
+      : $item.is('a[href]') ? $item : $item.find('a[href]').first();
+    const $title = config.title ? $item.find(config.title).first() : $link;
+
+    const title = $title.text().replace(/\s+/g, ' ').trim();
+    const link = absoluteUrl($link.attr('href') || '', pageUrl);
+    if (!title || !link) return;
+
+    let publishedAt: Date | null = null;
+    if (config.date) {
+      const $date = $item.find(config.date).first();
+      const raw = config.dateAttr ? $date.attr(config.dateAttr) || '' : $date.attr('datetime') || $date.text();
+      publishedAt = parseScrapedDate(raw.trim(), config.dateFormat);
+    }
+
+    const description = config.summary
+      ? $item.find(config.summary).first().text().replace(/\s+/g, ' ').trim()
+      : '';
+
+    push({ title: title.slice(0, 200), link, publishedAt, description });
+  });
+
+  return entries;
+}
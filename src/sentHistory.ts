@@ -0,0 +1,64 @@
+import { NewsItem } from './types';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SENT_HISTORY_FILE = dataFilePath('.sent-history.json');
+
+// chatId → (URL normalizada → timestamp do envio)
+type SentHistory = Record<string, Record<string, number>>;
+
+let retentionMs = 48 * 60 * 60 * 1000;
+let cache: SentHistory | null = null;
+
+export function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Define por quanto tempo um envio é lembrado. Cada entrada expira
+ * individualmente (janela deslizante), não o arquivo inteiro.
+ */
+export function setSentHistoryRetention(hours: number): void {
+  retentionMs = hours * 60 * 60 * 1000;
+}
+
+function prune(history: SentHistory): void {
+  const cutoff = Date.now() - retentionMs;
+  for (const chatId of Object.keys(history)) {
+    const entries = history[chatId];
+    for (const url of Object.keys(entries)) {
+      if (entries[url] < cutoff) delete entries[url];
+    }
+    if (Object.keys(entries).length === 0) delete history[chatId];
+  }
+}
+
+function load(): SentHistory {
+  if (!cache) {
+    cache = readJsonFile<SentHistory>(SENT_HISTORY_FILE, {});
+  }
+  prune(cache);
+  return cache;
+}
+
+/**
+ * Remove os itens que já foram enviados para este chat.
+ */
+export function filterUnsent(chatId: string, items: NewsItem[]): NewsItem[] {
+  const entries = load()[chatId] || {};
+  return items.filter((item) => !(normalizeUrl(item.link) in entries));
+}
+
+export function markSent(chatId: string, items: NewsItem[]): void {
+  if (items.length === 0) return;
+  const history = load();
+  const entries = history[chatId] || (history[chatId] = {});
+  const now = Date.now();
+  for (const item of items) {
+    entries[normalizeUrl(item.link)] = now;
+    // A história inteira conta como enviada, não só o link representante
+    for (const related of item.related || []) {
+      entries[normalizeUrl(related.link)] = now;
+    }
+  }
+  writeJsonFile(SENT_HISTORY_FILE, history);
+}
@@ -0,0 +1,239 @@
+import axios from 'axios';
+import { SocialProvider } from './types';
+import { normalizeUrl } from './sentHistory';
+import { defaultProfile } from './scoring';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SOCIAL_CACHE_FILE = dataFilePath('.social-cache.json');
+
+export interface SocialSignal {
+  score: number;             // Pontos / likes + reposts / boosts + favoritos
+  comments: number;
+}
+
+export type SocialScores = Partial<Record<SocialProvider, number>>;
+
+/**
+ * Provedor de sinal social para uma URL. check() lança exceção em caso de
+ * falha — o resultado não entra no cache, para ser tentado de novo depois.
+ */
+export interface SocialSignalProvider {
+  name: SocialProvider;
+  requestsPerMinute: number;
+  burst: number;
+  check(url: string): Promise<SocialSignal>;
+}
+
+/**
+ * Normaliza pontos + comentários (comentário vale 2x), sem limite.
+ */
+export function rawSocialScore(points: number, comments: number): number {
+  return points + comments * 2;
+}
+
+/**
+ * Score social final a partir da contribuição de cada provedor, com o teto
+ * social do perfil de ranking padrão.
+ */
+export function capSocialScore(byProvider: SocialScores): number {
+  const total = Object.values(byProvider).reduce((sum, v) => sum + (v || 0), 0);
+  return Math.min(total, defaultProfile().caps.social);
+}
+
+// --- Rate limit (token bucket por provedor) ---
+
+interface TokenBucket {
+  take(): Promise<void>;
+}
+
+function createTokenBucket(requestsPerMinute: number, burst: number): TokenBucket {
+  const refillPerMs = requestsPerMinute / 60000;
+  let tokens = burst;
+  let updatedAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - updatedAt) * refillPerMs);
+    updatedAt = now;
+  };
+
+  // Fila: cada chamada espera a anterior, então a ordem é preservada
+  return {
+    take() {
+      queue = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await new Promise((r) => setTimeout(r, Math.ceil((1 - tokens) / refillPerMs)));
+          refill();
+        }
+        tokens -= 1;
+      });
+      return queue;
+    },
+  };
+}
+
+// --- Provedores ---
+
+// Instância usada na busca de links no Mastodon (timeline pública de links)
+let mastodonInstance = 'mastodon.social';
+
+export function setMastodonInstance(instance: string): void {
+  mastodonInstance = instance.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+}
+
+const hackerNewsProvider: SocialSignalProvider = {
+  name: 'hackernews',
+  requestsPerMinute: 600,
+  burst: 10,
+  async check(url) {
+    const searchUrl = `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(url)}&restrictSearchableAttributes=url&hitsPerPage=5`;
+    const { data } = await axios.get(searchUrl, { timeout: 10000 });
+
+    // Melhor submissão da URL
+    let best: SocialSignal = { score: 0, comments: 0 };
+    for (const hit of data.hits || []) {
+      if ((hit.points || 0) > best.score) best = { score: hit.points || 0, comments: hit.num_comments || 0 };
+    }
+    return best;
+  },
+};
+
+const redditProvider: SocialSignalProvider = {
+  name: 'reddit',
+  requestsPerMinute: 60,
+  burst: 10,
+  async check(url) {
+    const searchUrl = `https://www.reddit.com/search.json?q=url:${encodeURIComponent(url)}&sort=top&limit=5`;
+    const { data } = await axios.get(searchUrl, {
+      timeout: 10000,
+      headers: { 'User-Agent': 'NewsAggregator/1.0' },
+    });
+
+    let best: SocialSignal = { score: 0, comments: 0 };
+    for (const child of data?.data?.children || []) {
+      const post = child.data;
+      if ((post.score || 0) > best.score) best = { score: post.score || 0, comments: post.num_comments || 0 };
+    }
+    return best;
+  },
+};
+
+/**
+ * Posts do Mastodon que compartilham o link (/api/v1/timelines/link, público
+ * nas instâncias com links em alta habilitados). Soma todos os posts.
+ */
+const mastodonProvider: SocialSignalProvider = {
+  name: 'mastodon',
+  requestsPerMinute: 60,
+  burst: 5,
+  async check(url) {
+    const searchUrl = `https://${mastodonInstance}/api/v1/timelines/link?url=${encodeURIComponent(url)}&limit=20`;
+    const { data } = await axios.get(searchUrl, { timeout: 10000 });
+
+    const total: SocialSignal = { score: 0, comments: 0 };
+    for (const status of Array.isArray(data) ? data : []) {
+      total.score += (status.reblogs_count || 0) + (status.favourites_count || 0);
+      total.comments += status.replies_count || 0;
+    }
+    return total;
+  },
+};
+
+/**
+ * Busca pública do Bluesky pelo link. Soma todos os posts encontrados.
+ */
+const blueskyProvider: SocialSignalProvider = {
+  name: 'bluesky',
+  requestsPerMinute: 60,
+  burst: 5,
+  async check(url) {
+    const searchUrl = `https://public.api.bsky.app/xrpc/app.bsky.feed.searchPosts?q=${encodeURIComponent(url)}&limit=25`;
+    const { data } = await axios.get(searchUrl, { timeout: 10000 });
+
+    const total: SocialSignal = { score: 0, comments: 0 };
+    for (const post of data?.posts || []) {
+      total.score += (post.likeCount || 0) + (post.repostCount || 0);
+      total.comments += post.replyCount || 0;
+    }
+    return total;
+  },
+};
+
+const providers: { provider: SocialSignalProvider; bucket: TokenBucket }[] = [];
+
+/**
+ * Adiciona um provedor de sinal social. Provedor com o mesmo nome é substituído.
+ */
+export function registerSocialProvider(provider: SocialSignalProvider): void {
+  const entry = { provider, bucket: createTokenBucket(provider.requestsPerMinute, provider.burst) };
+  const existing = providers.findIndex((p) => p.provider.name === provider.name);
+  if (existing >= 0) providers[existing] = entry;
+  else providers.push(entry);
+}
+
+for (const provider of [hackerNewsProvider, redditProvider, mastodonProvider, blueskyProvider]) {
+  registerSocialProvider(provider);
+}
+
+// --- Cache persistido (URL normalizada → scores por provedor) ---
+
+interface CachedScores {
+  scores: SocialScores;
+  checkedAt: number;
+}
+
+let ttlMs = 60 * 60 * 1000;
+let cache: Record<string, CachedScores> | null = null;
+
+export function setSocialCacheTtl(minutes: number): void {
+  ttlMs = minutes * 60 * 1000;
+}
+
+function load(): Record<string, CachedScores> {
+  if (!cache) cache = readJsonFile<Record<string, CachedScores>>(SOCIAL_CACHE_FILE, {});
+  return cache;
+}
+
+export function getCachedSocialScores(url: string): SocialScores | undefined {
+  const entry = load()[normalizeUrl(url)];
+  return entry && Date.now() - entry.checkedAt < ttlMs ? entry.scores : undefined;
+}
+
+/**
+ * Consulta todos os provedores (respeitando o rate limit de cada um) e
+ * guarda o resultado no cache. Provedores que falharam ficam de fora; se
+ * todos falharem, nada é guardado.
+ */
+export async function fetchSocialScores(url: string): Promise<SocialScores> {
+  const results = await Promise.allSettled(providers.map(async ({ provider, bucket }) => {
+    await bucket.take();
+    return { name: provider.name, signal: await provider.check(url) };
+  }));
+
+  const scores: SocialScores = {};
+  let succeeded = 0;
+  for (const r of results) {
+    if (r.status !== 'fulfilled') continue;
+    succeeded++;
+    const score = rawSocialScore(r.value.signal.score, r.value.signal.comments);
+    if (score > 0) scores[r.value.name] = score;
+  }
+
+  if (succeeded > 0) load()[normalizeUrl(url)] = { scores, checkedAt: Date.now() };
+  return scores;
+}
+
+/**
+ * Remove entradas expiradas e grava. Chamado uma vez por rodada do
+ * computeRelevance, não a cada URL.
+ */
+export function saveSocialCache(): void {
+  const data = load();
+  const cutoff = Date.now() - ttlMs;
+  for (const key of Object.keys(data)) {
+    if (data[key].checkedAt < cutoff) delete data[key];
+  }
+  writeJsonFile(SOCIAL_CACHE_FILE, data);
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Usa /tmp no servidor (Railway), ou pasta do projeto local
+const DATA_DIR = process.env.RAILWAY_ENVIRONMENT ? '/tmp' : path.join(__dirname, '..');
+
+/**
+ * Caminho absoluto de um arquivo de dados persistente (ex: ".subscriptions.json").
+ */
+export function dataFilePath(fileName: string): string {
+  return path.join(DATA_DIR, fileName);
+}
+
+/**
+ * Lê um JSON do disco. Arquivo ausente ou corrompido retorna o fallback.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    }
+  } catch (err) {
+    console.error(`[storage] Erro ao ler ${filePath}: ${err}`);
+  }
+  return fallback;
+}
+
+/**
+ * Grava JSON de forma atômica (arquivo temporário + rename), para que um
+ * crash no meio da escrita não deixe o arquivo truncado.
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data), 'utf-8');
+    fs.renameSync(tmp, filePath);
+  } catch (err) {
+    console.error(`[storage] Erro ao gravar ${filePath}: ${err}`);
+  }
+}
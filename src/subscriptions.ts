@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import { Language } from './i18n';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SUBSCRIPTIONS_FILE = dataFilePath('.subscriptions.json');
+
+export interface ChatPreferences {
+  categories: string[];          // Vazio = todas as categorias
+  digestIntervalMinutes: number; // 0 = sem digest automático
+  maxNewsPerSend: number;
+  language: Language;
+  profile?: string;              // Perfil de ranking; ausente = perfil padrão
+  summaries?: boolean;           // Resumo da matéria abaixo de cada manchete
+}
+
+export interface ChatSubscription extends ChatPreferences {
+  chatId: string;
+  subscribedAt: number;
+  lastDigestAt: number;
+}
+
+interface SubscriptionsFile {
+  subscriptions: ChatSubscription[];
+}
+
+let cache: Map<string, ChatSubscription> | null = null;
+
+function load(): Map<string, ChatSubscription> {
+  if (cache) return cache;
+  const data = readJsonFile<SubscriptionsFile>(SUBSCRIPTIONS_FILE, { subscriptions: [] });
+  cache = new Map(data.subscriptions.map((s) => [s.chatId, s]));
+  return cache;
+}
+
+function save(): void {
+  writeJsonFile(SUBSCRIPTIONS_FILE, { subscriptions: listSubscriptions() });
+}
+
+/**
+ * Na primeira execução (sem arquivo de assinaturas), inscreve o chat do
+ * TELEGRAM_CHAT_ID para manter o comportamento anterior de push único.
+ */
+export function seedSubscription(chatId: string, defaults: ChatPreferences): void {
+  if (fs.existsSync(SUBSCRIPTIONS_FILE) || load().size > 0) return;
+  subscribe(chatId, {}, defaults);
+  console.log(`[subscriptions] Chat padrão ${chatId} inscrito automaticamente`);
+}
+
+export function listSubscriptions(): ChatSubscription[] {
+  return Array.from(load().values());
+}
+
+export function getSubscription(chatId: string): ChatSubscription | undefined {
+  return load().get(chatId);
+}
+
+/**
+ * Cria ou atualiza a assinatura de um chat. Campos omitidos mantêm o valor
+ * atual (ou o default, para novas assinaturas).
+ */
+export function subscribe(
+  chatId: string,
+  prefs: Partial<ChatPreferences>,
+  defaults: ChatPreferences
+): ChatSubscription {
+  const subs = load();
+  const existing = subs.get(chatId);
+  const base: ChatSubscription = existing || {
+    chatId,
+    ...defaults,
+    subscribedAt: Date.now(),
+    lastDigestAt: 0,
+  };
+
+  const updated: ChatSubscription = { ...base };
+  if (prefs.categories !== undefined) updated.categories = prefs.categories;
+  if (prefs.digestIntervalMinutes !== undefined) updated.digestIntervalMinutes = prefs.digestIntervalMinutes;
+  if (prefs.maxNewsPerSend !== undefined) updated.maxNewsPerSend = prefs.maxNewsPerSend;
+  if (prefs.language !== undefined) updated.language = prefs.language;
+  if (prefs.profile !== undefined) updated.profile = prefs.profile;
+  if (prefs.summaries !== undefined) updated.summaries = prefs.summaries;
+
+  subs.set(chatId, updated);
+  save();
+  return updated;
+}
+
+export function unsubscribe(chatId: string): boolean {
+  const removed = load().delete(chatId);
+  if (removed) save();
+  return removed;
+}
+
+/**
+ * --freq off desliga todos os envios agendados (só comandos manuais).
+ */
+export function wantsScheduledDigests(sub: ChatSubscription): boolean {
+  return sub.digestIntervalMinutes > 0;
+}
+
+/**
+ * Um chat está "devido" quando já passou o intervalo dele desde o último
+ * digest. Tolerância de 1min para não perder ticks do scheduler por jitter.
+ */
+export function isDigestDue(sub: ChatSubscription, now: number = Date.now()): boolean {
+  if (!wantsScheduledDigests(sub)) return false;
+  return now - sub.lastDigestAt >= (sub.digestIntervalMinutes - 1) * 60 * 1000;
+}
+
+export function markDigestSent(chatId: string, at: number = Date.now()): void {
+  const sub = load().get(chatId);
+  if (!sub) return;
+  sub.lastDigestAt = at;
+  save();
+}
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { NewsItem } from './types';
+import { extractSignificantWords } from './dedup';
+import { normalizeUrl } from './sentHistory';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const SUMMARY_CACHE_FILE = dataFilePath('.summaries.json');
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CACHED = 3000;
+
+const SUMMARY_SENTENCES = 3;
+// Página do digest tem 5 notícias e a mensagem do Telegram, 4096 caracteres
+const MAX_SUMMARY_LENGTH = 350;
+// Abaixo disso o texto extraído não é o corpo da matéria (paywall, página de vídeo...)
+const MIN_ARTICLE_LENGTH = 400;
+const MIN_SENTENCE_WORDS = 6;
+const MAX_HTML_BYTES = 3 * 1024 * 1024;
+
+// --- Extração do conteúdo principal (estilo readability) ---
+
+const NOISE_SELECTORS = 'script, style, noscript, nav, header, footer, aside, form, iframe, svg, figure, button, '
+  + '[role="navigation"], [role="banner"], [role="complementary"], [aria-hidden="true"]';
+
+// Classes/ids típicos de blocos que não são o texto da matéria
+const NOISE_NAMES = /comment|share|social|related|recommend|newsletter|promo|advert|banner|sidebar|footer|menu|cookie/i;
+
+/**
+ * Texto principal da página: o container cujos <p> diretos somam mais
+ * texto vence (favorecendo parágrafos com vírgulas, como o readability).
+ */
+export function extractMainText(html: string): string {
+  const $ = cheerio.load(html);
+  $(NOISE_SELECTORS).remove();
+  $('[class], [id]').each((_, el) => {
+    const names = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+    // Wrappers com muitos parágrafos (ex: "page menu-open") não são ruído
+    if (NOISE_NAMES.test(names) && !$(el).is('article, main, body') && $(el).find('p').length < 5) $(el).remove();
+  });
+
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  // Pontua o pai de cada parágrafo; o id fica num atributo temporário
+  const scores: number[] = [];
+  $('p').each((_, p) => {
+    const text = clean($(p).text());
+    if (text.length < 40) return;
+    const $parent = $(p).parent();
+    let id = $parent.attr('data-summary-id');
+    if (id === undefined) {
+      id = String(scores.length);
+      $parent.attr('data-summary-id', id);
+      scores.push(0);
+    }
+    scores[Number(id)] += 1 + text.split(',').length + Math.min(text.length / 100, 3);
+  });
+
+  if (scores.length === 0) return '';
+  const best = scores.indexOf(Math.max(...scores));
+  return $(`[data-summary-id="${best}"]`)
+    .children('p')
+    .map((_, p) => clean($(p).text()))
+    .get()
+    .filter((text) => text.length >= 40)
+    .join('\n');
+}
+
+// --- Resumo extrativo ---
+
+function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap((paragraph) => paragraph.split(/(?<=[.!?…])\s+(?=["“(]?[A-ZÀ-Ý0-9])/))
+    .map((s) => s.trim())
+    .filter((s) => s.split(/\s+/).length >= MIN_SENTENCE_WORDS);
+}
+
+/**
+ * Escolhe as frases com mais palavras frequentes no texto (e do título),
+ * com bônus para o início da matéria. Mantém a ordem original.
+ */
+export function summarizeText(text: string, title: string = '', count: number = SUMMARY_SENTENCES): string {
+  const sentences = splitSentences(text);
+  if (sentences.length <= count) return sentences.join(' ');
+
+  const frequency = new Map<string, number>();
+  for (const sentence of sentences) {
+    for (const word of extractSignificantWords(sentence)) frequency.set(word, (frequency.get(word) || 0) + 1);
+  }
+  const titleWords = new Set(extractSignificantWords(title));
+
+  const scored = sentences.map((sentence, i) => {
+    const words = extractSignificantWords(sentence);
+    const base = words.reduce((sum, w) => sum + (frequency.get(w) || 0) + (titleWords.has(w) ? 2 : 0), 0);
+    // Normaliza pelo tamanho para não favorecer só frases longas
+    const normalized = words.length > 0 ? base / Math.sqrt(words.length) : 0;
+    const position = i === 0 ? 1.5 : i < 3 ? 1.2 : 1;
+    return { i, sentence, score: normalized * position };
+  });
+
+  const picked = [...scored].sort((a, b) => b.score - a.score).slice(0, count).sort((a, b) => a.i - b.i);
+  let summary = '';
+  for (const { sentence } of picked) {
+    if (summary && summary.length + sentence.length + 1 > MAX_SUMMARY_LENGTH) break;
+    summary = summary ? `${summary} ${sentence}` : sentence;
+  }
+  return summary.length > MAX_SUMMARY_LENGTH ? summary.slice(0, MAX_SUMMARY_LENGTH - 1) + '…' : summary;
+}
+
+// --- Cache persistido (URL normalizada → resumo) ---
+
+interface CachedSummary {
+  summary: string;
+  createdAt: number;
+}
+
+let cache: Record<string, CachedSummary> | null = null;
+
+function load(): Record<string, CachedSummary> {
+  if (!cache) cache = readJsonFile<Record<string, CachedSummary>>(SUMMARY_CACHE_FILE, {});
+  return cache;
+}
+
+function save(): void {
+  const data = load();
+  const cutoff = Date.now() - RETENTION_MS;
+  const keys = Object.keys(data).filter((key) => data[key].createdAt >= cutoff);
+  keys.sort((a, b) => data[b].createdAt - data[a].createdAt);
+  cache = Object.fromEntries(keys.slice(0, MAX_CACHED).map((key) => [key, data[key]]));
+  writeJsonFile(SUMMARY_CACHE_FILE, cache);
+}
+
+async function fetchSummary(item: NewsItem): Promise<string> {
+  const response = await axios.get(item.link, {
+    timeout: 10000,
+    responseType: 'text',
+    maxContentLength: MAX_HTML_BYTES,
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; NewsAggregator/1.0)' },
+  });
+  const text = extractMainText(String(response.data));
+  return text.length >= MIN_ARTICLE_LENGTH ? summarizeText(text, item.title) : '';
+}
+
+/**
+ * Resumo de 2–3 frases da matéria. Se a página não puder ser lida ou não
+ * tiver texto suficiente, usa a descrição do feed. null se não houver nenhum.
+ */
+export async function getSummary(item: NewsItem): Promise<string | null> {
+  const key = normalizeUrl(item.link);
+  const cached = load()[key];
+  if (cached) return cached.summary || null;
+
+  const fallback = () => (item.description ? summarizeText(item.description, item.title) : '');
+  let summary: string;
+  try {
+    summary = (await fetchSummary(item)) || fallback();
+  } catch (err) {
+    // Falha de rede não vai para o cache: tenta a página de novo na próxima vez
+    console.error(`[summary] Erro ao buscar ${item.link}: ${err}`);
+    return fallback() || null;
+  }
+
+  load()[key] = { summary, createdAt: Date.now() };
+  save();
+  return summary || null;
+}
+
+// Páginas buscadas ao mesmo tempo ao resumir um digest inteiro
+const CONCURRENCY = 3;
+
+/**
+ * Cópias dos itens com item.summary, para o modo de resumo dos digests.
+ */
+export async function withSummaries(items: NewsItem[]): Promise<NewsItem[]> {
+  const result = [...items];
+  let next = 0;
+  const worker = async () => {
+    while (next < result.length) {
+      const i = next++;
+      const summary = await getSummary(result[i]);
+      if (summary) result[i] = { ...result[i], summary };
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, result.length) }, worker));
+  return result;
+}
@@ -1,5 +1,14 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { NewsItem } from './types';
+import { FeedSource, NewsItem, Quote, SocialProvider } from './types';
+import { Language, MessageKey, t } from './i18n';
+import { ChatSubscription } from './subscriptions';
+import { WatchTerm } from './watchlist';
+import { DigestKind, getDigest, LastDigest, rememberDigest } from './lastDigest';
+import { ExportFile, SavedArticle } from './savedArticles';
+import { FeedHealth } from './feedHealth';
+import { Topic } from './topics';
+import { MARKET_SNAPSHOT } from './quotes';
+import { markSent } from './sentHistory';
 
 async function safeSend(bot: TelegramBot, chatId: string, text: string, opts: object, retries = 2): Promise<void> {
   for (let i = 0; i <= retries; i++) {
@@ -13,6 +22,27 @@ async function safeSend(bot: TelegramBot, chatId: string, text: string, opts: ob
   }
 }
 
+// Mensagens do Telegram vão até 4096 caracteres; margem para o parse do HTML
+const MAX_MESSAGE_LENGTH = 4000;
+
+/**
+ * Junta os blocos (separados por linha em branco) em mensagens de até
+ * MAX_MESSAGE_LENGTH caracteres, sem quebrar um bloco no meio.
+ */
+function chunkMessages(blocks: string[]): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const block of blocks) {
+    if (current && current.length + block.length + 2 > MAX_MESSAGE_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current += (current ? '\n\n' : '') + block;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -20,15 +50,16 @@ function escapeHtml(text: string): string {
     .replace(/>/g, '&gt;');
 }
 
-function timeAgo(date: Date): string {
+function timeAgo(date: Date, lang: Language = 'pt'): string {
+  const ago = t(lang, 'ago');
   const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
-  if (seconds < 60) return `${seconds}s atrás`;
+  if (seconds < 60) return `${seconds}s ${ago}`;
   const minutes = Math.floor(seconds / 60);
-  if (minutes < 60) return `${minutes}min atrás`;
+  if (minutes < 60) return `${minutes}min ${ago}`;
   const hours = Math.floor(minutes / 60);
-  if (hours < 24) return `${hours}h atrás`;
+  if (hours < 24) return `${hours}h ${ago}`;
   const days = Math.floor(hours / 24);
-  return `${days}d atrás`;
+  return `${days}d ${ago}`;
 }
 
 function scoreBar(score: number, max: number = 100): string {
@@ -36,20 +67,107 @@ function scoreBar(score: number, max: number = 100): string {
   return '█'.repeat(filled) + '░'.repeat(5 - filled);
 }
 
-function formatNewsItem(item: NewsItem, index: number): string {
+/**
+ * Lista compacta das outras fontes do cluster, ex: "Também em: G1, BBC News (+2)".
+ */
+function coverageLine(item: NewsItem): string {
+  const sources = [...new Set((item.related || []).map((r) => r.source))].filter((s) => s !== item.source);
+  if (sources.length === 0) return '';
+  const shown = sources.slice(0, 3).map(escapeHtml).join(', ');
+  const extra = sources.length > 3 ? ` (+${sources.length - 3})` : '';
+  return `Também em: ${shown}${extra}`;
+}
+
+const SOCIAL_LABELS: Record<SocialProvider, string> = {
+  hackernews: 'HN',
+  reddit: 'Reddit',
+  lobsters: 'Lobsters',
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
+};
+
+/**
+ * "Social: HN 30, Bluesky 12" — contribuição de cada provedor.
+ */
+function socialTag(item: NewsItem): string {
+  const entries = Object.entries(item.scoreBreakdown.social || {}) as [SocialProvider, number][];
+  if (entries.length === 0) return 'Social';
+  const parts = entries.sort((a, b) => b[1] - a[1]).map(([provider, score]) => `${SOCIAL_LABELS[provider]} ${score}`);
+  return `Social: ${parts.join(', ')}`;
+}
+
+function sourceLine(item: NewsItem, lang: Language): string {
+  const author = item.author ? ` · ${escapeHtml(item.author)}` : '';
+  return `${escapeHtml(item.source)}${author} - ${timeAgo(item.publishedAt, lang)}`;
+}
+
+/**
+ * Pontos e link para a discussão, quando a fonte é HN/Lobsters.
+ */
+function engagementLine(item: NewsItem): string {
+  if (!item.engagement) return '';
+  const { points, comments, discussionUrl } = item.engagement;
+  return `▲ ${points} · <a href="${discussionUrl}">💬 ${comments}</a>`;
+}
+
+function formatChange(changePercent: number, lang: Language): string {
+  const arrow = changePercent > 0 ? '▲' : changePercent < 0 ? '▼' : '•';
+  const value = changePercent.toLocaleString(t(lang, 'locale'), { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${arrow} ${changePercent > 0 ? '+' : ''}${value}%`;
+}
+
+function formatPrice(quote: Quote, lang: Language): string {
+  const digits = quote.price < 10 ? 4 : 2;
+  const price = quote.price.toLocaleString(t(lang, 'locale'), { minimumFractionDigits: 2, maximumFractionDigits: digits });
+  return quote.currency ? `${price} ${quote.currency}` : price;
+}
+
+/**
+ * "PETR4 ▲ +1,23% · AAPL ▼ -1,10%" — variação do dia dos tickers citados.
+ */
+function tickersLine(item: NewsItem, quotes: Record<string, Quote>, lang: Language): string {
+  const parts = (item.tickers || []).map((symbol) => {
+    const quote = quotes[symbol];
+    return quote ? `<b>${escapeHtml(symbol)}</b> ${formatChange(quote.changePercent, lang)}` : `<b>${escapeHtml(symbol)}</b>`;
+  });
+  return parts.length > 0 ? `📈 ${parts.join(' · ')}` : '';
+}
+
+function marketSnapshotLine(quotes: Record<string, Quote>, lang: Language): string {
+  return MARKET_SNAPSHOT
+    .filter((s) => quotes[s.symbol])
+    .map((s) => `${escapeHtml(s.label)} ${formatPrice(quotes[s.symbol], lang)} ${formatChange(quotes[s.symbol].changePercent, lang)}`)
+    .join('\n');
+}
+
+function formatNewsItem(
+  item: NewsItem,
+  index: number,
+  lang: Language = 'pt',
+  quotes: Record<string, Quote> = {}
+): string {
   const bd = item.scoreBreakdown;
   const tags: string[] = [];
   if (bd.crossFeedScore > 0) tags.push('Multi-fonte');
   if (bd.trendingScore > 0) tags.push('Trending');
-  if (bd.socialScore > 0) tags.push('Social');
+  if (bd.socialScore > 0) tags.push(socialTag(item));
+  if ((bd.personalScore || 0) > 0) tags.push('Para você');
 
   const tagText = tags.length > 0 ? tags.join(' | ') : '';
 
+  const coverage = coverageLine(item);
+  const engagement = engagementLine(item);
+  const tickers = tickersLine(item, quotes, lang);
+
   return [
     `<b>${index + 1}. ${escapeHtml(item.title)}</b>`,
-    `<a href="${item.link}">Ler mais</a>`,
+    ...(item.summary ? [`<i>${escapeHtml(item.summary)}</i>`] : []),
+    `<a href="${item.link}">${t(lang, 'readMore')}</a>`,
     `${scoreBar(item.relevanceScore, 100)} <b>${item.relevanceScore}</b>pts ${tagText ? '(' + tagText + ')' : ''}`,
-    `${escapeHtml(item.source)} - ${timeAgo(item.publishedAt)}`,
+    sourceLine(item, lang),
+    ...(engagement ? [engagement] : []),
+    ...(tickers ? [tickers] : []),
+    ...(coverage ? [coverage] : []),
   ].join('\n');
 }
 
@@ -57,107 +175,496 @@ export function createBot(token: string): TelegramBot {
   return new TelegramBot(token, { polling: true });
 }
 
+function formatLatestItem(item: NewsItem, index: number, lang: Language = 'pt'): string {
+  return [
+    `<b>${index + 1}. ${escapeHtml(item.title)}</b>`,
+    `<a href="${item.link}">${t(lang, 'readMore')}</a>`,
+    sourceLine(item, lang),
+  ].join('\n');
+}
+
+// --- Digests paginados com teclado inline ---
+
+const DIGEST_PAGE_SIZE = 5;
+
+export type DigestAction = 'pg' | 'more' | 'mute' | 'save' | 'up' | 'down' | 'noop';
+
+/**
+ * callback_data: "<ação>:<id do digest>:<argumento>" (limite de 64 bytes).
+ */
+export function digestCallback(action: DigestAction, digestId: string, arg: number | string = ''): string {
+  return `${action}:${digestId}:${arg}`;
+}
+
+function digestHeader(digest: LastDigest): string {
+  const date = new Date(digest.sentAt).toLocaleDateString(t(digest.lang, 'locale'));
+  if (digest.kind === 'latest') return `<b>${t(digest.lang, 'latestHeader')}</b>`;
+  if (digest.kind === 'money') {
+    const snapshot = marketSnapshotLine(digest.quotes || {}, digest.lang);
+    return `<b>${t(digest.lang, 'moneyHeader')}</b>${snapshot ? `\n${snapshot}` : ''}`;
+  }
+  const label = digest.label ? ` · ${escapeHtml(digest.label)}` : '';
+  return `<b>${t(digest.lang, 'trendingHeader')}${label} - ${date}</b>`;
+}
+
+function formatDigestItem(digest: LastDigest, item: NewsItem, index: number): string {
+  return digest.kind === 'latest'
+    ? formatLatestItem(item, index, digest.lang)
+    : formatNewsItem(item, index, digest.lang, digest.quotes);
+}
+
+/**
+ * Índice da primeira notícia de cada página: até DIGEST_PAGE_SIZE por
+ * página, menos quando o texto passaria do limite (resumos, links longos).
+ */
+function digestPageStarts(digest: LastDigest): number[] {
+  const headerLength = digestHeader(digest).length;
+  const starts: number[] = [];
+  let length = 0;
+  digest.items.forEach((item, i) => {
+    const itemLength = formatDigestItem(digest, item, i).length + 2;
+    const pageSize = starts.length > 0 ? i - starts[starts.length - 1] : 0;
+    if (starts.length === 0 || pageSize === DIGEST_PAGE_SIZE || length + itemLength > MAX_MESSAGE_LENGTH) {
+      starts.push(i);
+      length = headerLength;
+    }
+    length += itemLength;
+  });
+  return starts.length > 0 ? starts : [0];
+}
+
+export function digestPageCount(digest: LastDigest): number {
+  return digestPageStarts(digest).length;
+}
+
+function renderDigestPage(
+  digest: LastDigest,
+  page: number
+): { text: string; keyboard: TelegramBot.InlineKeyboardButton[][] } {
+  const starts = digestPageStarts(digest);
+  const totalPages = starts.length;
+  const start = starts[page - 1];
+  const pageItems = digest.items.slice(start, page < totalPages ? starts[page] : undefined);
+
+  const render = (items: NewsItem[]) => [
+    digestHeader(digest),
+    ...items.map((item, i) => formatDigestItem(digest, item, start + i)),
+  ].join('\n\n');
+  // Uma notícia sozinha ainda grande demais perde o resumo
+  let text = render(pageItems);
+  if (text.length > MAX_MESSAGE_LENGTH) text = render(pageItems.map((item) => ({ ...item, summary: undefined })));
+
+  // Uma linha de ações por notícia: mais como esta / silenciar fonte / salvar,
+  // e 👍/👎 nos digests com score (alimentam a personalização do chat)
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = pageItems.map((_, i) => {
+    const n = start + i + 1;
+    const row: TelegramBot.InlineKeyboardButton[] = [
+      { text: `🔎 ${n}`, callback_data: digestCallback('more', digest.id, n) },
+      { text: `🔇 ${n}`, callback_data: digestCallback('mute', digest.id, n) },
+      { text: `💾 ${n}`, callback_data: digestCallback('save', digest.id, n) },
+    ];
+    if (digest.kind !== 'latest') {
+      row.push(
+        { text: '👍', callback_data: digestCallback('up', digest.id, n) },
+        { text: '👎', callback_data: digestCallback('down', digest.id, n) }
+      );
+    }
+    return row;
+  });
+
+  if (totalPages > 1) {
+    const nav: TelegramBot.InlineKeyboardButton[] = [];
+    if (page > 1) nav.push({ text: '« Anterior', callback_data: digestCallback('pg', digest.id, page - 1) });
+    nav.push({ text: `${page}/${totalPages}`, callback_data: digestCallback('noop', digest.id) });
+    if (page < totalPages) nav.push({ text: 'Próxima »', callback_data: digestCallback('pg', digest.id, page + 1) });
+    keyboard.push(nav);
+  }
+
+  return { text, keyboard };
+}
+
+async function sendDigest(
+  bot: TelegramBot,
+  chatId: string,
+  kind: DigestKind,
+  items: NewsItem[],
+  lang: Language,
+  extra: Pick<LastDigest, 'label' | 'quotes'> = {}
+): Promise<void> {
+  const digestId = rememberDigest(chatId, kind, items, lang, extra);
+  const digest = getDigest(chatId, digestId)!;
+  const { text, keyboard } = renderDigestPage(digest, 1);
+
+  await safeSend(bot, chatId, text, {
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+    reply_markup: { inline_keyboard: keyboard },
+  });
+  // Só depois da entrega: um envio que falhou não esconde as notícias do chat
+  markSent(chatId, items);
+}
+
+/**
+ * Troca a página exibida editando a mensagem original, em vez de mandar outra.
+ */
+export async function showDigestPage(
+  bot: TelegramBot,
+  chatId: string,
+  messageId: number,
+  digest: LastDigest,
+  page: number
+): Promise<void> {
+  const clamped = Math.min(Math.max(page, 1), digestPageCount(digest));
+  const { text, keyboard } = renderDigestPage(digest, clamped);
+
+  try {
+    await bot.editMessageText(text, {
+      chat_id: chatId,
+      message_id: messageId,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  } catch (err) {
+    // Clique repetido na mesma página não é erro
+    if (!String(err).includes('message is not modified')) throw err;
+  }
+}
+
 export async function sendNews(
   bot: TelegramBot,
   chatId: string,
-  items: NewsItem[]
+  items: NewsItem[],
+  lang: Language = 'pt',
+  label?: string
 ): Promise<void> {
-  const htmlOpts = { parse_mode: 'HTML', disable_web_page_preview: true };
+  if (items.length === 0) {
+    await safeSend(bot, chatId, t(lang, 'trendingEmpty'), {});
+    return;
+  }
+
+  await sendDigest(bot, chatId, 'trending', items, lang, { label });
+}
 
+export async function sendLatestNews(
+  bot: TelegramBot,
+  chatId: string,
+  items: NewsItem[],
+  lang: Language = 'pt'
+): Promise<void> {
   if (items.length === 0) {
-    await safeSend(bot, chatId, 'Nenhuma notícia nova encontrada no momento.', {});
+    await safeSend(bot, chatId, t(lang, 'latestEmpty'), {});
     return;
   }
 
-  const header = `<b>Trending - ${new Date().toLocaleDateString('pt-BR')}</b>\n\n`;
-  const formatted = items.map((item, i) => formatNewsItem(item, i)).join('\n\n');
-  const message = header + formatted;
+  await sendDigest(bot, chatId, 'latest', items, lang);
+}
 
-  if (message.length <= 4096) {
-    await safeSend(bot, chatId, message, htmlOpts);
-  } else {
-    const chunks: string[] = [];
-    let current = header;
-
-    for (let i = 0; i < items.length; i++) {
-      const entry = formatNewsItem(items[i], i) + '\n\n';
-      if (current.length + entry.length > 4000) {
-        chunks.push(current);
-        current = '';
-      }
-      current += entry;
-    }
-    if (current.trim()) chunks.push(current);
+/**
+ * items já com tickers (tagTickers); quotes traz o snapshot do mercado e a
+ * variação de cada ticker citado.
+ */
+export async function sendMoneyNews(
+  bot: TelegramBot,
+  chatId: string,
+  items: NewsItem[],
+  lang: Language = 'pt',
+  quotes: Record<string, Quote> = {}
+): Promise<void> {
+  if (items.length === 0) {
+    await safeSend(bot, chatId, t(lang, 'moneyEmpty'), {});
+    return;
+  }
 
-    for (const chunk of chunks) {
-      await safeSend(bot, chatId, chunk, htmlOpts);
-    }
+  await sendDigest(bot, chatId, 'money', items, lang, { quotes });
+  console.log(`[money] ${items.length} notícias financeiras enviadas`);
+}
+
+export async function sendSavedArticles(
+  bot: TelegramBot,
+  chatId: string,
+  articles: SavedArticle[]
+): Promise<void> {
+  if (articles.length === 0) {
+    await safeSend(bot, chatId, 'Nenhum artigo salvo. Use o botão 💾 nos digests para salvar.', {});
+    return;
+  }
+
+  const header = `<b>💾 Artigos salvos (${articles.length})</b>`;
+  const formatted = articles.map((a, i) => [
+    `<b>${i + 1}.</b> <a href="${a.link}">${escapeHtml(a.title)}</a>`,
+    `${escapeHtml(a.source)} - salvo ${timeAgo(new Date(a.savedAt))}`,
+  ].join('\n'));
+  const footer = 'Remova com /unsave &lt;n&gt; · Exporte com /export md|csv|json';
+
+  // Listas longas são quebradas em várias mensagens
+  for (const chunk of chunkMessages([header, ...formatted, footer])) {
+    await safeSend(bot, chatId, chunk, { parse_mode: 'HTML', disable_web_page_preview: true });
   }
 }
 
-function formatLatestItem(item: NewsItem, index: number): string {
-  return [
-    `<b>${index + 1}. ${escapeHtml(item.title)}</b>`,
-    `<a href="${item.link}">Ler mais</a>`,
-    `${escapeHtml(item.source)} - ${timeAgo(item.publishedAt)}`,
-  ].join('\n');
+export async function sendSavedExport(
+  bot: TelegramBot,
+  chatId: string,
+  file: ExportFile,
+  count: number
+): Promise<void> {
+  await bot.sendDocument(
+    chatId,
+    file.content,
+    { caption: `${count} artigos salvos` },
+    { filename: file.filename, contentType: file.contentType }
+  );
 }
 
-export async function sendLatestNews(
+export async function sendSimilarArticles(
   bot: TelegramBot,
   chatId: string,
-  items: NewsItem[]
+  item: NewsItem,
+  results: NewsItem[]
 ): Promise<void> {
-  const htmlOpts = { parse_mode: 'HTML', disable_web_page_preview: true };
+  if (results.length === 0) {
+    await safeSend(bot, chatId, 'Nenhuma notícia parecida encontrada no acervo recente.', {});
+    return;
+  }
 
-  if (items.length === 0) {
-    await safeSend(bot, chatId, 'Nenhuma notícia recente encontrada.', {});
+  const header = `<b>🔎 Mais como:</b> ${escapeHtml(item.title)}`;
+  const formatted = results.map((r, i) => formatLatestItem(r, i));
+  await safeSend(bot, chatId, [header, ...formatted].join('\n\n'), {
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  });
+}
+
+const MAX_STORY_ENTRIES = 20;
+
+export async function sendStoryCoverage(
+  bot: TelegramBot,
+  chatId: string,
+  position: number,
+  item: NewsItem
+): Promise<void> {
+  const entries = [item, ...(item.related || [])]
+    .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  const outlets = new Set(entries.map((e) => e.source)).size;
+
+  const header = `<b>📰 Cobertura da história ${position}</b> — ${entries.length} matérias, ${outlets} fontes`;
+  const formatted = entries.slice(0, MAX_STORY_ENTRIES).map((e) => [
+    `<b>${escapeHtml(e.source)}</b> - ${timeAgo(e.publishedAt)}`,
+    `<a href="${e.link}">${escapeHtml(e.title)}</a>`,
+  ].join('\n'));
+
+  // Histórias grandes (links longos do Google News/Reddit) viram várias mensagens
+  for (const chunk of chunkMessages([header, ...formatted])) {
+    await safeSend(bot, chatId, chunk, { parse_mode: 'HTML', disable_web_page_preview: true });
+  }
+}
+
+export async function sendSummary(
+  bot: TelegramBot,
+  chatId: string,
+  position: number,
+  item: NewsItem,
+  summary: string | null,
+  lang: Language = 'pt'
+): Promise<void> {
+  const msg = [
+    `<b>📝 ${position}. ${escapeHtml(item.title)}</b>`,
+    summary ? escapeHtml(summary) : t(lang, 'summaryUnavailable'),
+    `<a href="${item.link}">${t(lang, 'readMore')}</a>`,
+  ].join('\n\n');
+
+  await safeSend(bot, chatId, msg, { parse_mode: 'HTML', disable_web_page_preview: true });
+}
+
+export async function sendQuote(bot: TelegramBot, chatId: string, quote: Quote, lang: Language = 'pt'): Promise<void> {
+  const name = quote.name !== quote.symbol ? ` — ${escapeHtml(quote.name)}` : '';
+  const msg = [
+    `<b>${escapeHtml(quote.symbol)}</b>${name}`,
+    `${formatPrice(quote, lang)} (${formatChange(quote.changePercent, lang)} ${t(lang, 'today')})`,
+  ].join('\n');
+
+  await safeSend(bot, chatId, msg, { parse_mode: 'HTML' });
+}
+
+function signed(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+/**
+ * /why: cada componente do score do item, com o sinal bruto que o gerou.
+ */
+export async function sendScoreExplanation(
+  bot: TelegramBot,
+  chatId: string,
+  position: number,
+  item: NewsItem,
+  votes: { up: number; down: number }
+): Promise<void> {
+  const bd = item.scoreBreakdown;
+  const signals = item.signals;
+  if (!signals && bd.totalScore === 0) {
+    await safeSend(bot, chatId, `A notícia ${position} veio de um digest sem score (ex: /latest).`, {});
     return;
   }
 
-  const header = `<b>Mais recentes</b>\n\n`;
-  const formatted = items.map((item, i) => formatLatestItem(item, i)).join('\n\n');
-  const message = header + formatted;
+  const lines = [
+    `<b>🧮 Por que a notícia ${position} tem ${item.relevanceScore} pts</b>`,
+    escapeHtml(item.title),
+    '',
+  ];
+
+  const cross = signals && signals.crossSources > 0
+    ? ` — ${signals.crossSources.toFixed(1)} outras fontes, pesadas pela autoridade`
+    : '';
+  lines.push(`• Multi-fonte: ${bd.crossFeedScore} pts${cross}`);
+  const hits = signals ? ` — ${signals.trendingHits} termos em alta` : '';
+  lines.push(`• Em alta: ${bd.trendingScore} pts${hits}`);
+  lines.push(`• Recência: ${bd.recencyScore} pts — publicada há ${timeAgo(item.publishedAt).replace(/ \S+$/, '')}`);
+  lines.push(`• Social: ${bd.socialScore} pts${bd.socialScore > 0 ? ` — ${socialTag(item).replace('Social: ', '')}` : ''}`);
+  if (bd.authority !== undefined) lines.push(`• Autoridade da fonte: ×${bd.authority}`);
 
-  if (message.length <= 4096) {
-    await safeSend(bot, chatId, message, htmlOpts);
+  const personal = bd.personal;
+  if (personal) {
+    const parts: string[] = [];
+    if (personal.source !== 0) parts.push(`fonte ${signed(personal.source)}`);
+    if (personal.category !== 0) parts.push(`categoria ${signed(personal.category)}`);
+    const keywords = Object.entries(personal.keywords).map(([k, v]) => `${escapeHtml(k)} ${signed(v)}`);
+    if (keywords.length > 0) parts.push(`keywords: ${keywords.join(', ')}`);
+    lines.push(`• Personalização: ${signed(personal.points)} pts${parts.length > 0 ? ` — ${parts.join('; ')}` : ''}`);
   } else {
-    const chunks: string[] = [];
-    let current = header;
-
-    for (let i = 0; i < items.length; i++) {
-      const entry = formatLatestItem(items[i], i) + '\n\n';
-      if (current.length + entry.length > 4000) {
-        chunks.push(current);
-        current = '';
-      }
-      current += entry;
-    }
-    if (current.trim()) chunks.push(current);
+    lines.push('• Personalização: 0 pts');
+  }
 
-    for (const chunk of chunks) {
-      await safeSend(bot, chatId, chunk, htmlOpts);
-    }
+  lines.push('', `Seus votos: ${votes.up} 👍 · ${votes.down} 👎 — use os botões dos digests para ajustar.`);
+
+  await safeSend(bot, chatId, lines.join('\n'), {
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  });
+}
+
+export type RecapPeriod = 'daily' | 'weekly';
+
+const RECAP_TITLES: Record<RecapPeriod, MessageKey> = {
+  daily: 'recapDaily',
+  weekly: 'recapWeekly',
+};
+
+/**
+ * Histórias mais bem pontuadas do período, agrupadas por categoria (a
+ * categoria com a melhor história primeiro). Numeração contínua.
+ */
+export async function sendRecap(
+  bot: TelegramBot,
+  chatId: string,
+  period: RecapPeriod,
+  stories: NewsItem[],
+  stats: { runs: number; ranked: number },
+  lang: Language = 'pt'
+): Promise<void> {
+  const title = t(lang, RECAP_TITLES[period]);
+  if (stories.length === 0) {
+    await safeSend(bot, chatId, `${title}: ${t(lang, 'recapEmpty')}`, {});
+    return;
+  }
+
+  const groups = new Map<string, NewsItem[]>();
+  for (const story of stories) {
+    const category = story.category || t(lang, 'recapOther');
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push(story);
   }
+
+  const header = [
+    `<b>${title}</b>`,
+    t(lang, 'recapStats', { stories: stories.length, ranked: stats.ranked, runs: stats.runs }),
+  ].join('\n');
+
+  let n = 0;
+  const sections = [...groups.entries()].map(([category, items]) => [
+    `<b>#${escapeHtml(category)}</b>`,
+    ...items.map((story) => {
+      const outlets = new Set([story.source, ...(story.related || []).map((r) => r.source)]).size;
+      const coverage = outlets > 1 ? ` · ${t(lang, 'outlets', { count: outlets })}` : '';
+      return `${++n}. <a href="${story.link}">${escapeHtml(story.title)}</a> — ${escapeHtml(story.source)} · ${story.relevanceScore} pts${coverage}`;
+    }),
+  ].join('\n'));
+
+  await safeSend(bot, chatId, [header, ...sections].join('\n\n'), {
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  });
+}
+
+export async function sendTopics(
+  bot: TelegramBot,
+  chatId: string,
+  topics: Topic[]
+): Promise<void> {
+  if (topics.length === 0) {
+    await safeSend(bot, chatId, 'Nenhum assunto fora do normal agora.', {});
+    return;
+  }
+
+  const formatted = topics.map((topic, i) => {
+    // ratio 1 = ainda sem baseline suficiente para comparar
+    const spike = topic.ratio > 1 ? ` · ${topic.ratio.toFixed(1)}x o normal` : '';
+    return [
+      `<b>${i + 1}. ${escapeHtml(topic.term)}</b> — ${topic.count} matérias${spike}`,
+      ...topic.items.map((item) => `• <a href="${item.link}">${escapeHtml(item.title)}</a> (${escapeHtml(item.source)})`),
+    ].join('\n');
+  });
+
+  await safeSend(bot, chatId, ['<b>🔥 Assuntos em alta</b>', ...formatted].join('\n\n'), {
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  });
+}
+
+export async function sendSearchResults(
+  bot: TelegramBot,
+  chatId: string,
+  query: string,
+  results: NewsItem[],
+  page: number,
+  totalPages: number,
+  totalResults: number,
+  offset: number
+): Promise<void> {
+  const htmlOpts = { parse_mode: 'HTML', disable_web_page_preview: true };
+
+  if (results.length === 0) {
+    await safeSend(bot, chatId, `Nada encontrado para "${query}".`, {});
+    return;
+  }
+
+  const header = `<b>🔎 ${escapeHtml(query)}</b> — ${totalResults} resultados (página ${page}/${totalPages})\n\n`;
+  const formatted = results.map((item, i) => formatLatestItem(item, offset + i)).join('\n\n');
+  const footer = page < totalPages ? `\n\nPróxima página: adicione --page ${page + 1}` : '';
+
+  await safeSend(bot, chatId, header + formatted + footer, htmlOpts);
 }
 
 export async function sendSourcesList(
   bot: TelegramBot,
   chatId: string,
-  sources: { name: string; category: string }[]
+  sources: { name: string; category: string; enabled?: boolean }[]
 ): Promise<void> {
+  // Numeração global, a mesma aceita por /removefeed e /disablefeed
   const byCategory = new Map<string, string[]>();
-  for (const s of sources) {
+  sources.forEach((s, i) => {
     const list = byCategory.get(s.category) || [];
-    list.push(s.name);
+    const label = `${i + 1}. ${escapeHtml(s.name)}${s.enabled === false ? ' <i>(desativada)</i>' : ''}`;
+    list.push(label);
     byCategory.set(s.category, list);
-  }
+  });
 
-  let msg = '<b>Fontes ativas:</b>\n\n';
-  for (const [category, names] of byCategory) {
+  let msg = '<b>Fontes configuradas:</b>\n\n';
+  for (const [category, labels] of byCategory) {
     msg += `<b>${escapeHtml(category.toUpperCase())}</b>\n`;
-    for (const name of names) {
-      msg += `  - ${escapeHtml(name)}\n`;
+    for (const label of labels) {
+      msg += `  ${label}\n`;
     }
     msg += '\n';
   }
@@ -165,19 +672,218 @@ export async function sendSourcesList(
   await safeSend(bot, chatId, msg, { parse_mode: 'HTML' });
 }
 
+function formatDuration(seconds: number): string {
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (d > 0) return `${d}d ${h}h ${m}min`;
+  if (h > 0) return `${h}h ${m}min`;
+  return `${m}min`;
+}
+
+export async function sendBotStatus(
+  bot: TelegramBot,
+  chatId: string,
+  uptimeSeconds: number,
+  feeds: { source: FeedSource; health?: FeedHealth }[]
+): Promise<void> {
+  const now = Date.now();
+  const active = feeds.filter((f) => f.source.enabled !== false);
+  const backedOff = active.filter((f) => (f.health?.backoffUntil || 0) > now);
+  const problems = active.filter((f) =>
+    !f.health || f.health.consecutiveFailures > 0 || f.health.lastItemCount === 0
+  );
+  const healthy = active.filter((f) => !problems.includes(f) && f.health);
+  const lastSuccess = Math.max(0, ...active.map((f) => f.health?.lastSuccessAt || 0));
+  const avgLatency = healthy.length > 0
+    ? Math.round(healthy.reduce((sum, f) => sum + f.health!.lastLatencyMs, 0) / healthy.length)
+    : 0;
+
+  const lines = [
+    '<b>📊 Status do bot</b>',
+    '',
+    `Uptime: ${formatDuration(uptimeSeconds)}`,
+    `Fontes: ${feeds.length} configuradas · ${active.length} ativas · ${feeds.length - active.length} desativadas · ${backedOff.length} em backoff`,
+    `Última busca com sucesso: ${lastSuccess > 0 ? timeAgo(new Date(lastSuccess)) : 'nenhuma ainda'}`,
+  ];
+
+  if (problems.length > 0) {
+    lines.push('', '<b>⚠️ Fontes com problema</b>');
+    for (const { source, health } of problems) {
+      let detail: string;
+      if (!health) {
+        detail = 'ainda não buscada';
+      } else if (health.consecutiveFailures > 0) {
+        detail = `${health.consecutiveFailures} falhas seguidas — ${escapeHtml(health.lastError || 'erro desconhecido')}`;
+        if (health.backoffUntil > now) detail += ` (pausada por mais ${formatDuration((health.backoffUntil - now) / 1000)})`;
+      } else {
+        detail = 'nenhum item na última busca';
+      }
+      lines.push(`- <b>${escapeHtml(source.name)}</b>: ${detail}`);
+    }
+  }
+
+  lines.push('', `✅ ${healthy.length} fontes OK${avgLatency > 0 ? ` (latência média ${avgLatency}ms)` : ''}`);
+
+  await safeSend(bot, chatId, lines.join('\n'), { parse_mode: 'HTML' });
+}
+
+export async function sendSubscriptionStatus(
+  bot: TelegramBot,
+  chatId: string,
+  sub: ChatSubscription | undefined
+): Promise<void> {
+  if (!sub) {
+    await safeSend(bot, chatId, 'Este chat não está inscrito. Use /subscribe para receber digests.', {});
+    return;
+  }
+
+  const frequency = sub.digestIntervalMinutes > 0
+    ? `a cada ${sub.digestIntervalMinutes}min`
+    : 'desativado (só comandos manuais)';
+  const msg = [
+    '<b>Assinatura deste chat:</b>',
+    '',
+    `Categorias: ${sub.categories.length > 0 ? escapeHtml(sub.categories.join(', ')) : 'todas'}`,
+    `Digest: ${frequency}`,
+    `Máx. notícias por envio: ${sub.maxNewsPerSend}`,
+    `Idioma: ${sub.language}`,
+    `Perfil de ranking: ${sub.profile ? escapeHtml(sub.profile) : 'padrão do bot'}`,
+    `Resumos: ${sub.summaries ? 'ativados' : 'desativados'}`,
+    '',
+    'Altere com: /subscribe [categorias...] --freq 2h --max 5 --lang en --profile breaking --summary on',
+  ].join('\n');
+
+  await safeSend(bot, chatId, msg, { parse_mode: 'HTML' });
+}
+
+export async function sendWatchAlert(
+  bot: TelegramBot,
+  chatId: string,
+  query: string,
+  cluster: NewsItem[],
+  lang: Language = 'pt'
+): Promise<void> {
+  const [first, ...others] = cluster;
+  const lines = [
+    `🔔 <b>Watchlist:</b> ${escapeHtml(query)}`,
+    '',
+    `<b>${escapeHtml(first.title)}</b>`,
+    `<a href="${first.link}">${t(lang, 'readMore')}</a>`,
+    `${escapeHtml(first.source)} - ${timeAgo(first.publishedAt, lang)}`,
+  ];
+  if (others.length > 0) {
+    lines.push('', `Também em: ${others.map((o) => `<a href="${o.link}">${escapeHtml(o.source)}</a>`).join(', ')}`);
+  }
+
+  await safeSend(bot, chatId, lines.join('\n'), { parse_mode: 'HTML', disable_web_page_preview: true });
+}
+
+export async function sendWatchlist(
+  bot: TelegramBot,
+  chatId: string,
+  terms: WatchTerm[]
+): Promise<void> {
+  if (terms.length === 0) {
+    await safeSend(bot, chatId, 'Sua watchlist está vazia. Use /watch <termo> para adicionar.', {});
+    return;
+  }
+
+  const msg = [
+    '<b>Watchlist deste chat:</b>',
+    '',
+    ...terms.map((term, i) => `${i + 1}. <code>${escapeHtml(term.query)}</code>`),
+    '',
+    'Remova com /unwatch &lt;n&gt; ou /unwatch &lt;termo&gt;',
+  ].join('\n');
+
+  await safeSend(bot, chatId, msg, { parse_mode: 'HTML' });
+}
+
+// --- Menu de comandos do cliente (setMyCommands) ---
+
+export const BOT_COMMANDS: TelegramBot.BotCommand[] = [
+  { command: 'latest', description: 'Notícias da última hora' },
+  { command: 'trending', description: 'Mais relevantes do dia' },
+  { command: 'money', description: 'Mercados e economia' },
+  { command: 'quote', description: 'Cotação de um ticker' },
+  { command: 'topics', description: 'Assuntos em alta' },
+  { command: 'daily', description: 'Resumo do dia' },
+  { command: 'weekly', description: 'Resumo da semana' },
+  { command: 'cat', description: 'Trending de uma categoria' },
+  { command: 'meme', description: 'Memes populares' },
+  { command: 'sources', description: 'Fontes ativas' },
+  { command: 'status', description: 'Saúde das fontes' },
+  { command: 'subscribe', description: 'Receber digests automáticos' },
+  { command: 'unsubscribe', description: 'Parar de receber digests' },
+  { command: 'watch', description: 'Alerta para um termo' },
+  { command: 'unwatch', description: 'Remover termo da watchlist' },
+  { command: 'watchlist', description: 'Termos monitorados' },
+  { command: 'unmute', description: 'Reativar fonte silenciada' },
+  { command: 'saved', description: 'Artigos salvos' },
+  { command: 'unsave', description: 'Remover artigo salvo' },
+  { command: 'export', description: 'Exportar artigos salvos' },
+  { command: 'story', description: 'Cobertura de uma notícia' },
+  { command: 'summary', description: 'Resumo de uma notícia' },
+  { command: 'why', description: 'Explicar o score de uma notícia' },
+  { command: 'search', description: 'Buscar nas notícias recentes' },
+  { command: 'help', description: 'Lista de comandos' },
+];
+
+// Limite do Telegram por escopo
+const MAX_BOT_COMMANDS = 100;
+
+/**
+ * Registra no Telegram os comandos fixos mais um por categoria, para que
+ * apareçam no menu do cliente. Chamado na inicialização e quando as fontes mudam.
+ */
+export async function registerBotCommands(bot: TelegramBot, categories: string[]): Promise<void> {
+  const categoryCommands = categories.map((c) => ({ command: c, description: `Trending de ${c}` }));
+  await bot.setMyCommands([...BOT_COMMANDS, ...categoryCommands].slice(0, MAX_BOT_COMMANDS));
+}
+
 export async function sendHelp(
   bot: TelegramBot,
-  chatId: string
+  chatId: string,
+  profiles: string[],
+  categories: string[]
 ): Promise<void> {
+  const categoryLine = categories.length > 0
+    ? [`${categories.map((c) => `/${c}`).join(' ')} [perfil] - Trending só da categoria`]
+    : [];
   const help = [
     '<b>Comandos disponíveis:</b>',
     '',
     '/latest ou /last - Notícias da última hora',
-    '/trending - Top 10 mais relevantes do dia (com score)',
-    '/money - Mercados e economia (com score)',
+    '/trending [perfil] - Top 10 mais relevantes do dia (com score). Perfis: ' + profiles.map(escapeHtml).join(', '),
+    '/money - Mercados e economia (com score, cotações e tickers citados)',
+    '/quote &lt;ticker&gt; - Cotação do dia (ex: PETR4, $AAPL, ibov, dolar, btc)',
+    '/topics - Assuntos em alta fora do normal, com as notícias',
+    '/daily /weekly - Resumo das histórias mais bem pontuadas do dia / da semana',
+    '/cat &lt;categoria&gt; [perfil] - Trending só da categoria (sem argumento lista as categorias)',
+    ...categoryLine,
     '/meme - Top 5 memes mais populares do momento',
     '/sources - Listar fontes ativas',
+    '/status - Saúde das fontes e uptime do bot',
+    '/subscribe [categorias] [--freq 2h] [--max 5] [--lang en] [--profile nome] [--summary on] - Receber digests automáticos',
+    '/unsubscribe - Parar de receber digests',
+    '/watch &lt;termo&gt; - Alerta imediato (aceita "frase", OR e -exclusão)',
+    '/unwatch &lt;n|termo&gt; - Remover termo da watchlist',
+    '/watchlist - Listar termos monitorados',
+    '/unmute [fonte] - Reativar fonte silenciada (sem argumento lista as silenciadas)',
+    '/saved - Listar seus artigos salvos',
+    '/unsave &lt;n&gt; - Remover artigo salvo',
+    '/export [md|csv|json] - Exportar artigos salvos como arquivo',
+    '/story &lt;n&gt; - Todas as fontes que cobriram a notícia n do último digest',
+    '/summary &lt;n&gt; - Resumo da notícia n do último digest',
+    '/why &lt;n&gt; - Como foi calculado o score da notícia n do último digest (👍/👎 nos digests ajustam)',
+    '/search &lt;termos&gt; [--since 3d] [--source G1] - Buscar nas notícias recentes',
     '/help - Mostrar esta mensagem',
+    '',
+    '<b>Admin:</b>',
+    '/addfeed &lt;tipo&gt; &lt;url&gt; &lt;categoria&gt; [--name "Nome"] - Adicionar fonte',
+    '/removefeed &lt;n|nome&gt; - Remover fonte',
+    '/disablefeed &lt;n|nome&gt; / /enablefeed &lt;n|nome&gt; - Pausar ou reativar fonte',
   ].join('\n');
 
   await safeSend(bot, chatId, help, { parse_mode: 'HTML' });
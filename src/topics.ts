@@ -0,0 +1,211 @@
+import { NewsItem } from './types';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const BASELINE_FILE = dataFilePath('.keyword-baseline.json');
+
+// Janela do baseline: dias anteriores a hoje
+const BASELINE_DAYS = 7;
+// Com menos artigos que isso no baseline, volta à regra antiga (3+ artigos)
+const MIN_BASELINE_DOCS = 300;
+// Um termo está em alta quando aparece em pelo menos 3 artigos de 2 fontes
+// e a frequência atual é 3x a normal
+const MIN_TERM_DOCS = 3;
+const MIN_TERM_SOURCES = 2;
+const SPIKE_RATIO = 3;
+
+// --- Tokenização simples para análise de keywords ---
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'shall', 'can', 'need', 'dare', 'ought',
+  'used', 'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by', 'from',
+  'as', 'into', 'through', 'during', 'before', 'after', 'above', 'below',
+  'between', 'out', 'off', 'over', 'under', 'again', 'further', 'then',
+  'once', 'and', 'but', 'or', 'nor', 'not', 'so', 'yet', 'both',
+  'either', 'neither', 'each', 'every', 'all', 'any', 'few', 'more',
+  'most', 'other', 'some', 'such', 'no', 'only', 'own', 'same', 'than',
+  'too', 'very', 'just', 'because', 'about', 'up', 'it', 'its', 'this',
+  'that', 'these', 'those', 'he', 'she', 'they', 'we', 'you', 'i', 'me',
+  'my', 'your', 'his', 'her', 'their', 'our', 'what', 'which', 'who',
+  'when', 'where', 'why', 'how', 'if', 'while', 'new', 'says', 'said',
+  // PT-BR stop words
+  'de', 'da', 'do', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas',
+  'um', 'uma', 'uns', 'umas', 'por', 'para', 'com', 'sem', 'sob',
+  'sobre', 'entre', 'que', 'se', 'mais', 'mas', 'como', 'seu', 'sua',
+  'seus', 'suas', 'ele', 'ela', 'eles', 'elas', 'isso', 'isto',
+  'aquilo', 'este', 'esta', 'esse', 'essa', 'já', 'ainda', 'também',
+  'foi', 'ser', 'ter', 'está', 'são', 'tem', 'vai', 'pode', 'diz',
+  'após', 'ano', 'dia', 'vez', 'até', 'não', 'há',
+]);
+
+export function extractKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-záàâãéèêíïóôõöúçñ0-9\s]/gi, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+}
+
+/**
+ * Termos de um título: keywords e bigramas de keywords adjacentes
+ * (ex: "banco central"), sem repetição.
+ */
+export function extractTerms(title: string): string[] {
+  const words = extractKeywords(title);
+  const terms = new Set(words);
+  for (let i = 0; i + 1 < words.length; i++) terms.add(`${words[i]} ${words[i + 1]}`);
+  return [...terms];
+}
+
+// --- Baseline persistido: frequência de documentos por termo, por dia ---
+
+interface DayBucket {
+  docs: number;
+  terms: Record<string, number>;
+}
+
+type Baseline = Record<string, DayBucket>;  // "YYYY-MM-DD" (UTC) → contagens
+
+let cache: Baseline | null = null;
+
+function dayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function load(): Baseline {
+  if (!cache) cache = readJsonFile<Baseline>(BASELINE_FILE, {});
+  return cache;
+}
+
+/**
+ * Descarta dias fora da janela e, nos dias já fechados, termos vistos uma
+ * única vez (não mudam a taxa de forma relevante e dominam o tamanho do arquivo).
+ */
+function prune(baseline: Baseline): void {
+  const today = dayKey(Date.now());
+  const oldest = dayKey(Date.now() - BASELINE_DAYS * 24 * 60 * 60 * 1000);
+  for (const day of Object.keys(baseline)) {
+    if (day < oldest) {
+      delete baseline[day];
+    } else if (day < today) {
+      const terms = baseline[day].terms;
+      for (const term of Object.keys(terms)) {
+        if (terms[term] < 2) delete terms[term];
+      }
+    }
+  }
+}
+
+/**
+ * Conta os termos de artigos vistos pela primeira vez. Chamado pelo
+ * articleStore, que já sabe quais itens são novos — assim cada artigo
+ * entra no baseline uma única vez, não a cada busca.
+ */
+export function recordTermFrequencies(items: NewsItem[]): void {
+  if (items.length === 0) return;
+  const baseline = load();
+  const bucket = baseline[dayKey(Date.now())] || (baseline[dayKey(Date.now())] = { docs: 0, terms: {} });
+
+  for (const item of items) {
+    bucket.docs++;
+    for (const term of extractTerms(item.title)) {
+      bucket.terms[term] = (bucket.terms[term] || 0) + 1;
+    }
+  }
+
+  prune(baseline);
+  writeJsonFile(BASELINE_FILE, baseline);
+}
+
+function baselineTotals(): { docs: number; terms: Map<string, number> } {
+  const today = dayKey(Date.now());
+  const terms = new Map<string, number>();
+  let docs = 0;
+  for (const [day, bucket] of Object.entries(load())) {
+    if (day >= today) continue;
+    docs += bucket.docs;
+    for (const [term, count] of Object.entries(bucket.terms)) {
+      terms.set(term, (terms.get(term) || 0) + count);
+    }
+  }
+  return { docs, terms };
+}
+
+// --- Detecção ---
+
+export interface TrendingTerm {
+  term: string;
+  count: number;             // Artigos atuais com o termo
+  ratio: number;             // Frequência atual / frequência normal
+  score: number;
+}
+
+/**
+ * Remove keywords cobertas por um bigrama em alta com contagem parecida
+ * ("banco" e "central" quando "banco central" já está na lista).
+ */
+function collapseBigrams(terms: TrendingTerm[]): TrendingTerm[] {
+  const bigrams = terms.filter((t) => t.term.includes(' '));
+  return terms.filter((t) =>
+    t.term.includes(' ') ||
+    !bigrams.some((b) => b.term.split(' ').includes(t.term) && b.count >= t.count * 0.8)
+  );
+}
+
+/**
+ * Termos com frequência anormal nos itens atuais, comparados ao baseline
+ * dos dias anteriores (tipo TF-IDF: artigos com o termo × log do aumento).
+ * Sem baseline suficiente, qualquer termo em 3+ artigos conta, com ratio 1.
+ */
+export function detectTrendingTerms(items: NewsItem[]): TrendingTerm[] {
+  const docs = new Map<string, number>();
+  const sources = new Map<string, Set<string>>();
+  for (const item of items) {
+    for (const term of extractTerms(item.title)) {
+      docs.set(term, (docs.get(term) || 0) + 1);
+      let set = sources.get(term);
+      if (!set) sources.set(term, (set = new Set()));
+      set.add(item.source);
+    }
+  }
+
+  const baseline = baselineTotals();
+  const coldStart = baseline.docs < MIN_BASELINE_DOCS;
+  const trending: TrendingTerm[] = [];
+
+  for (const [term, count] of docs) {
+    if (count < MIN_TERM_DOCS) continue;
+
+    if (coldStart) {
+      if (!term.includes(' ')) trending.push({ term, count, ratio: 1, score: count });
+      continue;
+    }
+
+    if (sources.get(term)!.size < MIN_TERM_SOURCES) continue;
+    // Suavização: termo nunca visto conta como 1 ocorrência no baseline
+    const expected = ((baseline.terms.get(term) || 0) + 1) / (baseline.docs + 1);
+    const ratio = count / items.length / expected;
+    if (ratio < SPIKE_RATIO) continue;
+    trending.push({ term, count, ratio, score: count * Math.log2(ratio) });
+  }
+
+  return collapseBigrams(trending).sort((a, b) => b.score - a.score);
+}
+
+export interface Topic extends TrendingTerm {
+  items: NewsItem[];
+}
+
+/**
+ * Termos em alta com as notícias que os mencionam (mais relevantes primeiro).
+ */
+export function findTopics(items: NewsItem[], limit: number, itemsPerTopic: number = 3): Topic[] {
+  return detectTrendingTerms(items).slice(0, limit).map((t) => ({
+    ...t,
+    items: items
+      .filter((item) => extractTerms(item.title).includes(t.term))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || b.publishedAt.getTime() - a.publishedAt.getTime())
+      .slice(0, itemsPerTopic),
+  }));
+}
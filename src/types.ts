@@ -1,37 +1,166 @@
 export interface FeedSource {
   name: string;
   url: string;
-  type: 'rss' | 'http' | 'reddit';
+  type: 'rss' | 'atom' | 'jsonfeed' | 'sitemap' | 'http' | 'reddit' | 'hackernews' | 'lobsters' | 'mastodon' | 'bluesky';
   category: string;
+  enabled?: boolean;         // false = desativada via /disablefeed
+  scrape?: ScrapeConfig;     // Só para type "http"
+  authority?: number;        // Peso de confiança da fonte (padrão: 1)
+  maxPerDigest?: number;     // Máximo de itens da fonte por envio (padrão: 3)
+}
+
+/**
+ * Seletores CSS para extrair artigos de páginas HTML. Sem "item", o
+ * scraper usa a heurística antiga (todos os links com texto longo).
+ */
+export interface ScrapeConfig {
+  item?: string;             // Container de cada artigo, ex: "article.post"
+  title?: string;            // Relativo ao item (padrão: texto do link)
+  link?: string;             // Relativo ao item (padrão: primeiro a[href])
+  date?: string;             // Relativo ao item; usa "datetime" se existir
+  dateAttr?: string;         // Atributo com a data, em vez do texto
+  dateFormat?: string;       // Ex: "DD/MM/YYYY HH:mm" (padrão: formato do Date)
+  summary?: string;          // Relativo ao item
+  include?: string[];        // Regex de URLs aceitas
+  exclude?: string[];        // Regex de URLs descartadas
 }
 
 export interface FeedsConfig {
   feeds: FeedSource[];
+  domainAuthority?: Record<string, number>;  // Peso por domínio do link (itens de agregadores)
+  categories?: Record<string, CategoryConfig>;
+}
+
+/**
+ * Opções de uma categoria de feeds.json. Categorias "vertical" (ex:
+ * mercados) têm comando próprio e ficam fora do /trend sem filtro.
+ */
+export interface CategoryConfig {
+  profile?: string;          // Perfil de ranking usado no comando da categoria
+  vertical?: boolean;
+  command?: string;          // Comando dedicado que roda a categoria (ex: "money")
 }
 
 export interface NewsItem {
   title: string;
   link: string;
   source: string;
+  category?: string;         // Categoria da FeedSource de origem
+  author?: string;           // Quando o feed informa (Atom, JSON Feed, dc:creator)
   publishedAt: Date;
   description: string;
   relevanceScore: number;
   scoreBreakdown: ScoreBreakdown;
+  related?: CoverageEntry[];  // Outras fontes cobrindo o mesmo acontecimento
+  engagement?: Engagement;    // Pontos/comentários vindos da própria fonte (HN, Lobsters...)
+  signals?: RankingSignals;   // Sinais brutos, pontuados por um perfil de ranking
+  authority?: number;         // Peso da fonte ou do domínio do link (padrão: 1)
+  tickers?: string[];         // Tickers citados no título (notícias de mercado)
+  summary?: string;           // Resumo extrativo da matéria (modo resumo)
+}
+
+/**
+ * Sinais brutos de um item, independentes de perfil. Calculados uma vez por
+ * rodada e reaproveitados por cada chat com o perfil dele.
+ */
+export interface RankingSignals {
+  crossSources: number;      // Outras fontes com título parecido, somando a autoridade de cada uma
+  trendingHits: number;      // Keywords em alta presentes no item
+  social: Partial<Record<SocialProvider, number>>;
+  authority: number;         // Multiplicador do total
+}
+
+export interface SignalValues {
+  crossFeed: number;
+  trending: number;
+  recency: number;
+  social: number;
+}
+
+export interface RankingProfile {
+  name: string;
+  description: string;
+  weights: SignalValues;     // Multiplicador de cada sinal
+  caps: SignalValues;        // Teto de pontos de cada sinal, antes do peso
+  recencyHalfLifeHours: number;
+}
+
+export interface Engagement {
+  provider: SocialProvider;
+  points: number;            // Pontos / likes + reposts / favoritos + boosts
+  comments: number;
+  discussionUrl: string;
+}
+
+export type SocialProvider = 'hackernews' | 'reddit' | 'lobsters' | 'mastodon' | 'bluesky';
+
+export interface CoverageEntry {
+  title: string;
+  link: string;
+  source: string;
+  publishedAt: Date;
 }
 
 export interface ScoreBreakdown {
   crossFeedScore: number;    // Aparece em múltiplos feeds/fontes
   recencyScore: number;      // Quão recente é
   trendingScore: number;     // Keywords em alta (aparecem em muitas notícias)
-  socialScore: number;       // HackerNews + Reddit (quando disponível)
+  socialScore: number;       // Soma dos provedores sociais (limitada a 50)
   totalScore: number;
+  social?: Partial<Record<SocialProvider, number>>;  // Contribuição de cada provedor, antes do limite
+  authority?: number;        // Peso aplicado ao total, quando diferente de 1
+  personalScore?: number;    // Termo de personalização do chat (👍/👎), somado ao total
+  personal?: PersonalScore;
+}
+
+/**
+ * Contribuição do modelo de preferências do chat, por componente.
+ */
+export interface PersonalScore {
+  keywords: Record<string, number>;  // Keywords do título com afinidade aprendida
+  source: number;
+  category: number;
+  points: number;            // Soma limitada a ±20
+}
+
+export interface Quote {
+  symbol: string;
+  name: string;
+  price: number;
+  changePercent: number;     // Variação do dia
+  currency: string;
+}
+
+export interface QuietHours {
+  start: number;             // Hora de início (0-23), inclusiva
+  end: number;               // Hora de fim (0-23), exclusiva
 }
 
 export interface AppConfig {
   telegramBotToken: string;
   telegramChatId: string;
+  adminUserIds: string[];
   checkIntervalMinutes: number;
   maxNewsPerSend: number;
   newsMaxAgeHours: number;
+  moneyCron: string | null;
+  latestCron: string | null;
+  dailyCron: string | null;
+  weeklyCron: string | null;
+  quietHours: QuietHours | null;
+  scheduleTimezone: string;
+  skipEmptyDigests: boolean;
+  sentHistoryHours: number;
+  fetchCacheTtlMinutes: number;
+  mastodonInstance: string;
+  socialCacheTtlMinutes: number;
+  socialLookupsPerRun: number;
+  rankingProfiles: RankingProfile[];
+  defaultRankingProfile: string;
+  watchIntervalMinutes: number;
   feeds: FeedSource[];
+  domainAuthority: Record<string, number>;
+  categories: Record<string, CategoryConfig>;
+  quoteProvider: 'yahoo' | 'fixture';
+  quoteFixtureFile: string | null;
 }
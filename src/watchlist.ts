@@ -0,0 +1,199 @@
+import { NewsItem } from './types';
+import { areSimilar, normalizeTitle } from './dedup';
+import { tokenize } from './args';
+import { normalizeUrl } from './sentHistory';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+const WATCHLIST_FILE = dataFilePath('.watchlists.json');
+const ALERT_MEMORY_MS = 48 * 60 * 60 * 1000;
+const MAX_ALERT_RECORDS = 500;
+const MAX_TERMS_PER_CHAT = 30;
+
+export interface WatchTerm {
+  query: string;
+  createdAt: number;
+}
+
+interface AlertRecord {
+  title: string;
+  url: string;
+  alertedAt: number;
+}
+
+interface ChatWatchlist {
+  terms: WatchTerm[];
+  alerted: AlertRecord[];
+}
+
+type WatchlistFile = Record<string, ChatWatchlist>;
+
+/**
+ * Consulta em forma normal disjuntiva: casa se QUALQUER grupo tiver TODOS
+ * os seus termos presentes e NENHUM termo de exclusão aparecer.
+ */
+export interface WatchQuery {
+  groups: string[][];
+  excludes: string[];
+}
+
+export interface WatchAlert {
+  chatId: string;
+  query: string;
+  cluster: NewsItem[];   // Primeiro item = o mais antigo; demais = outras fontes
+}
+
+let cache: WatchlistFile | null = null;
+
+function load(): WatchlistFile {
+  if (!cache) cache = readJsonFile<WatchlistFile>(WATCHLIST_FILE, {});
+  return cache;
+}
+
+function save(): void {
+  writeJsonFile(WATCHLIST_FILE, load());
+}
+
+function chatList(chatId: string): ChatWatchlist {
+  const data = load();
+  return data[chatId] || (data[chatId] = { terms: [], alerted: [] });
+}
+
+/**
+ * Sintaxe suportada:
+ *   petrobras vale          → ambos (AND implícito)
+ *   petrobras OR vale       → qualquer um
+ *   "banco central"         → frase exata
+ *   nvidia -gaming          → exclusão (vale para a consulta toda)
+ * Retorna null se não sobrar nenhum termo positivo.
+ */
+export function parseWatchQuery(raw: string): WatchQuery | null {
+  const groups: string[][] = [[]];
+  const excludes: string[] = [];
+
+  for (const token of tokenize(raw)) {
+    if (token === 'OR' || token === '|') {
+      if (groups[groups.length - 1].length > 0) groups.push([]);
+      continue;
+    }
+    const isExclude = token.startsWith('-') && token.length > 1;
+    const term = normalizeTitle(isExclude ? token.slice(1) : token);
+    if (!term) continue;
+    if (isExclude) excludes.push(term);
+    else groups[groups.length - 1].push(term);
+  }
+
+  const nonEmpty = groups.filter((g) => g.length > 0);
+  return nonEmpty.length > 0 ? { groups: nonEmpty, excludes } : null;
+}
+
+function containsTerm(paddedText: string, term: string): boolean {
+  return paddedText.includes(` ${term} `);
+}
+
+export function matchesQuery(query: WatchQuery, item: NewsItem): boolean {
+  const text = ` ${normalizeTitle(item.title + ' ' + item.description)} `;
+  if (query.excludes.some((term) => containsTerm(text, term))) return false;
+  return query.groups.some((group) => group.every((term) => containsTerm(text, term)));
+}
+
+export function listWatchTerms(chatId: string): WatchTerm[] {
+  return load()[chatId]?.terms || [];
+}
+
+/**
+ * Adiciona um termo. Retorna mensagem de erro ou null em caso de sucesso.
+ */
+export function addWatchTerm(chatId: string, query: string): string | null {
+  if (!parseWatchQuery(query)) return 'Termo vazio ou só com exclusões.';
+  const list = chatList(chatId);
+  if (list.terms.some((t) => t.query.toLowerCase() === query.toLowerCase())) {
+    return 'Esse termo já está na sua watchlist.';
+  }
+  if (list.terms.length >= MAX_TERMS_PER_CHAT) {
+    return `Limite de ${MAX_TERMS_PER_CHAT} termos atingido.`;
+  }
+  list.terms.push({ query, createdAt: Date.now() });
+  save();
+  return null;
+}
+
+/**
+ * Remove pelo texto do termo ou pela posição (1-based) mostrada em /watchlist.
+ */
+export function removeWatchTerm(chatId: string, termOrIndex: string): WatchTerm | null {
+  const list = load()[chatId];
+  if (!list) return null;
+
+  const index = /^\d+$/.test(termOrIndex)
+    ? parseInt(termOrIndex, 10) - 1
+    : list.terms.findIndex((t) => t.query.toLowerCase() === termOrIndex.toLowerCase());
+  if (index < 0 || index >= list.terms.length) return null;
+
+  const [removed] = list.terms.splice(index, 1);
+  save();
+  return removed;
+}
+
+function alreadyAlerted(list: ChatWatchlist, item: NewsItem): boolean {
+  const url = normalizeUrl(item.link);
+  return list.alerted.some((a) => a.url === url || areSimilar(a.title, item.title));
+}
+
+/**
+ * Agrupa itens do mesmo acontecimento (mesma lógica de similaridade do dedup),
+ * para alertar uma vez por história e não uma vez por fonte.
+ */
+function clusterItems(items: NewsItem[]): NewsItem[][] {
+  const clusters: NewsItem[][] = [];
+  const sorted = [...items].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  for (const item of sorted) {
+    const cluster = clusters.find((c) => areSimilar(c[0].title, item.title));
+    if (cluster) {
+      if (!cluster.some((c) => c.source === item.source)) cluster.push(item);
+    } else {
+      clusters.push([item]);
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Confere os itens buscados contra as watchlists de todos os chats e
+ * devolve os alertas novos, já registrados como enviados.
+ */
+export function collectWatchAlerts(items: NewsItem[], lookbackHours: number): WatchAlert[] {
+  const data = load();
+  const now = Date.now();
+  const cutoff = now - lookbackHours * 60 * 60 * 1000;
+  const recent = items.filter((item) => item.link && item.publishedAt.getTime() >= cutoff);
+  const alerts: WatchAlert[] = [];
+
+  for (const [chatId, list] of Object.entries(data)) {
+    list.alerted = list.alerted.filter((a) => now - a.alertedAt < ALERT_MEMORY_MS);
+
+    for (const term of list.terms) {
+      const query = parseWatchQuery(term.query);
+      if (!query) continue;
+
+      const matches = recent.filter((item) => matchesQuery(query, item));
+      for (const cluster of clusterItems(matches)) {
+        if (cluster.some((item) => alreadyAlerted(list, item))) continue;
+        alerts.push({ chatId, query: term.query, cluster });
+        for (const item of cluster) {
+          list.alerted.push({ title: item.title, url: normalizeUrl(item.link), alertedAt: now });
+        }
+      }
+    }
+
+    if (list.alerted.length > MAX_ALERT_RECORDS) {
+      list.alerted = list.alerted.slice(-MAX_ALERT_RECORDS);
+    }
+  }
+
+  save();
+  return alerts;
+}
+
+export function hasWatchTerms(): boolean {
+  return Object.values(load()).some((list) => list.terms.length > 0);
+}